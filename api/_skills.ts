@@ -56,6 +56,21 @@ Uniform Scale:
 Turn any solid into a thin shell: var d = opShell(solidSDF, thickness);
 Stack for concentric layers: opOnion(opOnion(d, t1), t2)
 
+## 2D Profiles — opExtrude / opRevolve
+Draw the outline in 2D, then lift it. Far cleaner than carving flat shapes out of 3D boxes.
+2D shapes: sd2Circle, sd2Box (half-extents), sd2Polygon(px,py, points), sd2Star(px,py, r,n,m), sd2Arc(px,py, aperture,radius,thickness), sd2Bezier (unsigned — subtract a width).
+Combine them with the usual opUnion / opSubtract / opSmoothUnion / opOnion — they work on 2D distances unchanged.
+
+Extrude (flat parts: gears, signs, keyholes, window tracery):
+  var d2 = opSubtract(sd2Star(lx, ly, 0.5, 12, 10), sd2Circle(lx, ly, 0.12));
+  return opExtrude(d2, lz, 0.06); // 0.12 thick along Z
+
+Revolve (rims, rings, vases — a lathe you can blend):
+  var q = opRevolve(lx, ly, lz, 0.6); // profile sits 0.6 from the Y axis
+  return sd2Box(q[0], q[1], 0.05, 0.15); // a flat-walled ring, 0.1 wide and 0.3 tall
+
+Rotate the extrusion with domainRotateY first if it should face along X instead of Z.
+
 ## sdTaperedCylinder — Tapered Trunk/Branch Primitive
 sdTaperedCylinder(px,py,pz, r1,r2,h) — r1 radius at bottom (-h), r2 at top (+h)
 Ideal for tree trunks, branches, horns, tentacles, legs.
@@ -145,30 +160,71 @@ Noise displacement is critical for organic realism:
 
 ## Scattering & Placement
 
-Random scatter with rejection:
-  for (var i = 0; i < N; i++) {
-    var tx = minX + random()*(maxX-minX);
-    var tz = minZ + random()*(maxZ-minZ);
-    var scale = 0.5 + random()*0.5;
-    // Position each instance at (tx, groundY, tz) with per-instance variation
-  }
-
-Poisson Disk (minimum-distance scatter for natural look):
-  var pts=[]; for(var i=0;i<N*10&&pts.length<N;i++){
-    var x=minX+random()*(maxX-minX), z=minZ+random()*(maxZ-minZ);
-    var ok=true; for(var j=0;j<pts.length;j++){var dx=x-pts[j][0],dz=z-pts[j][1];if(dx*dx+dz*dz<minDist*minDist){ok=false;break;}}
-    if(ok)pts.push([x,z]);
-  }
+Use scatter() — Poisson-disk placements that never clump or overlap, already sitting on the surface:
+\`\`\`js
+// Layer 3: boulders on the terrain (layer-0), none on cliffs or under the water line
+var rock = defineInstance(function() {
+  sdfMesh(function(x, y, z) { return opDisplace(sdEllipsoid(x, y, z, 0.08, 0.05, 0.07), fbm3D(x*20, y*20, z*20) * 0.01); },
+    function() { return [0.45, 0.43, 0.4]; }, [-0.12, -0.08, -0.1], [0.12, 0.08, 0.1], 48);
+});
+scatter({ onLayer: "layer-0", count: 60, minDistance: 0.25, slopeMax: 0.6, heightRange: [-1.35, 0], seed: 11 })
+  .forEach(function(p) {
+    instance(rock, p.position[0], p.position[1], p.position[2], p.rotation, 0.7 + (p.seed % 60) / 100);
+  });
+\`\`\`
+- Grass/flowers: small minDistance (0.03–0.08) with densityFn for patches: function(x, z) { return fbm2D(x*1.5, z*1.5) * 0.5 + 0.5; }
+- Trees: scatter({ ..., minDistance: 0.6 }) and tree({ seed: p.seed, position: p.position, height: ... }) — each tree different, no trunks touching.
+- Keep plants upright (they grow toward the sky) and spin them with p.rotation; p.normal[1] near 1 means flat ground.
+- Without an earlier layer: scatter({ region: [x0, z0, x1, z1], height: heightFn or Heightmap, count: N }).
+
+Snapping onto an earlier layer (terrain, rocks, a roof) — never guess the ground from bounds:
+  var ground = LAYERS["layer-0"];
+  var y = ground.heightAt(tx, tz);          // topmost surface, null off the layer
+  if (y === null) continue;
+  var hit = ground.raycast([tx, y + 0.5, tz], [0, -1, 0]);
+  // hit.normal tilts grass/rocks to the slope; skip spots where hit.normal[1] < 0.7 (cliffs)
+  var side = ground.closestPoint([px, py, pz]); // moss on a trunk, a sign on a wall: side.point, side.normal
+
+## Instancing Repeated Parts
+Forests, grass tufts, fences and rock fields repeat one part many times. Build it once with defineInstance and place copies with instance() — copies cost no vertices, so hundreds are fine:
+\`\`\`js
+var pine = defineInstance(function() {
+  setMaterial({ roughness: 0.8 });
+  sdfMesh(
+    function(x, y, z) {
+      var trunk = sdCylinder(x, y - 0.08, z, 0.02, 0.08);
+      var crown = sdCone(x, y - 0.42, z, 0.14, 0.3);
+      return opSmoothUnion(trunk, crown, 0.02);
+    },
+    function(x, y, z) { return y < 0.15 ? [0.35, 0.22, 0.12] : [0.12, 0.32, 0.15]; },
+    [-0.2, -0.05, -0.2], [0.2, 0.5, 0.2], 48
+  );
+});
+scatter({ region: [-2.8, -5.8, 2.8, -1.3], height: -1.5, count: 150 }).forEach(function(p) {
+  instance(pine, p.position[0], p.position[1], p.position[2], p.rotation, 0.7 + random() * 0.6);
+});
+\`\`\`
+The prototype is modelled at the origin with its base at y=0, so instance y is the ground height.
 
 ## Terrain (grid heightfields)
 
 Rolling hills: function(x,z){ return -1.5 + fbm2D(x*0.8, z*0.8, 4) * 0.5; }
 
-Ridged mountains:
+Ridged mountains: function(x,z){ return -1.0 + ridged2D(x*0.5, z*0.5, 6) * 1.2; }
+
+Warped, organic terrain (no grid artifacts):
+  function(x,z) { var w = domainWarp2D(x*0.6, z*0.6, 0.8); return -1.5 + (simplex2D(w[0], w[1])*0.5 + billow2D(w[0]*2, w[1]*2, 3)*0.3); }
+
+Eroded-looking terrain — damp octaves where the slope is steep, using analytic derivatives:
   function(x,z) {
-    var sum=0,amp=1,freq=0.5,weight=1;
-    for(var i=0;i<6;i++){var n=1-Math.abs(noise2D(x*freq,z*freq)); n=n*n*weight; weight=Math.min(1,Math.max(0,n*2)); sum+=n*amp; amp*=0.5; freq*=2;}
-    return -1.0+sum*0.6;
+    var sum=0, amp=0.5, freq=0.6, dx=0, dz=0;
+    for (var i=0; i<6; i++) {
+      var n = perlin2DDeriv(x*freq, z*freq);
+      dx += n[1]; dz += n[2];
+      sum += amp * n[0] / (1 + dx*dx + dz*dz);
+      amp *= 0.5; freq *= 2;
+    }
+    return -1.3 + sum;
   }
 
 Terracing: return Math.round(fbm2D(x*0.6,z*0.6)*steps)/steps + baseY;
@@ -177,6 +233,34 @@ Island falloff:
   var dx=(x-cx)/rx, dz=(z-cz)/rz; var falloff=1-Math.min(1,dx*dx+dz*dz);
   return baseY + fbm2D(x*0.8,z*0.8)*0.6*falloff;
 
+## Heightmap — One Terrain Surface for Every Layer
+Sample the terrain once, erode it, mesh it with grid(). Later layers read the exact same ground through LAYERS instead of re-typing the formula:
+\`\`\`js
+// Layer 1: terrain
+var hm = Heightmap.fromFunction(-3, -6, 3, 0, 160, 160, function(x, z) {
+  return -1.3 + ridged2D(x*0.5, z*0.5, 5) * 0.6;
+});
+hm.erode({ type: "hydraulic", seed: 7 })
+  .erode({ type: "thermal", iterations: 20, talus: 0.8 });
+grid(-3, -6, 3, 0, 160, 160, hm, function(x, z) {
+  var n = hm.normalAt(x, z);
+  return n[1] < 0.8 ? [0.45, 0.42, 0.38] : [0.3, 0.45, 0.2]; // rock on steep slopes
+});
+\`\`\`
+\`\`\`js
+// Layer 2: rocks sitting on that terrain (layer-0)
+var ground = LAYERS["layer-0"].heightmap;
+for (var i = 0; i < 20; i++) {
+  var x = -2.5 + random()*5, z = -5.5 + random()*5;
+  var y = ground.sample(x, z);
+  // place a rock at (x, y, z)
+}
+\`\`\`
+- hydraulic: droplets carve branching gullies and deposit sediment in valleys. About 1 droplet per grid point (the default) is a natural look; more flattens valleys and deepens gullies.
+- thermal: slopes steeper than talus (rise/run) slump into smooth scree. Run it after hydraulic to soften sharp gully walls.
+- Rivers and roads: follow ground.sample() along their path and lift them a little (0.005–0.01) to avoid z-fighting.
+- Use the same bounds and resolution in Heightmap.fromFunction and grid() so vertices hit the samples exactly.
+
 ## Water
 Still water: grid at constant y=waterLevel. Color: [0.1, 0.3, 0.6].
 Waves: y = waterLevel + 0.02*Math.sin(x*3+z*2) + 0.01*Math.sin(x*5-z*3)
@@ -194,7 +278,27 @@ Always call setMaterial() for each layer to set PBR properties:
 - Water: setMaterial({ roughness: 0.1, metalness: 0.2 })
 - Moss: setMaterial({ roughness: 0.8, metalness: 0 })
 
-## Tree Construction Recipe (Multi-Layer)
+## tree() — Built-in Trees (use this first)
+One call grows a whole tree: trunk with root flare, tapering branches, leaf clusters at the twig tips.
+\`\`\`js
+// Oak at the left of the scene, standing on the ground
+var oak = tree({ species: "oak", height: 1.6, seed: 11, position: [-1.2, -1.5, -3.5] });
+// oak.leaves.bounds / oak.trunk.top are available for placing birds, swings, fallen leaves
+\`\`\`
+Species: "oak" (broad, round), "birch" (slender, pale bark), "pine" (conical tiers), "willow" (drooping).
+branching 0–1 thickens the crown; leafDensity 0–1 (0 = bare winter tree). barkColor / leafColor override the palette (autumn: leafColor [0.75, 0.4, 0.12]).
+
+Split one tree across layers by reusing the seed:
+  layer 1: tree({ species: "pine", seed: 4, position: [0, -1.5, -3], only: "trunk" })
+  layer 2: tree({ species: "pine", seed: 4, position: [0, -1.5, -3], only: "branches" })
+  layer 3: tree({ species: "pine", seed: 4, position: [0, -1.5, -3], only: "leaves" })
+
+Forest: build a few trees once with defineInstance and scatter instances with rotY/scale variation:
+  var oaks = [1, 2, 3].map(function(s) { return defineInstance(function() { tree({ species: "oak", seed: s }); }); });
+  for (var i = 0; i < 20; i++) instance(oaks[i % 3], -2.5 + random() * 5, -1.5, -5 + random() * 3, random() * 6.28, 0.8 + random() * 0.5);
+
+## Tree Construction Recipe (Multi-Layer, hand-built)
+For stylized or unusual trees tree() can't make (baobab, bonsai, cartoon lollipop trees).
 
 ### Trunk (sdTaperedCylinder + bark texture)
 \`\`\`js
@@ -373,6 +477,9 @@ Multi-part coloring (different colors per SDF region):
 
 ALWAYS add noise: return [baseR + noise3D(x*s,y*s,z*s)*0.05, ...] for natural imperfection.
 
+## Texture Baking for Fine Color Detail
+Vertex colors blur any pattern finer than the mesh cells. Call setTextureResolution(1024) at the top of the layer and the same colorFn is baked per texel — sharp grain, stripes and rust spots on a res-80 mesh. Costs one colorFn call per texel, so keep colorFn cheap (a few noise octaves).
+
 ## Weathering & Aging
 
 Rust: var mask=fbm3D(x*8,y*8,z*8,4)*0.5+0.5; if(mask>0.6) blend toward [0.55,0.25,0.10]
@@ -384,10 +491,18 @@ Call setMaterial() once per layer to set physical material properties:
 - setMaterial({ roughness: 0.9 }) — rough bark, stone
 - setMaterial({ roughness: 0.75 }) — foliage, fabric
 - setMaterial({ roughness: 0.2, metalness: 0.9 }) — polished metal
-- setMaterial({ roughness: 0.05, opacity: 0.3 }) — glass, ice, water (only use opacity for genuinely transparent materials)
+- setMaterial({ roughness: 0.05, transmission: 1, ior: 1.5, thickness: 0.05 }) — clear glass, ice (ior 1.31), water (ior 1.33)
+- setMaterial({ roughness: 0.05, opacity: 0.3 }) — cheap see-through when refraction is not needed (only use opacity for genuinely transparent materials)
+- setMaterial({ roughness: 0.5, clearcoat: 1, clearcoatRoughness: 0.1 }) — lacquered wood, glazed ceramic, car paint
+- setMaterial({ roughness: 0.9, sheen: 1, sheenColor: [0.8, 0.3, 0.4] }) — velvet, felt
+- setMaterial({ emissive: [1, 0.75, 0.4], emissiveIntensity: 3 }) — lit windows, lanterns, embers (put the glowing bit in its own part)
 - Default if not called: roughness=0.55, metalness=0.0, opacity=1.0
 - Solid materials (wood, stone, metal, bark, leaves, skin, fabric) must ALWAYS be fully opaque — never set opacity on them.
 
+Mixed-material objects use parts instead of extra layers:
+  beginPart("frame", { roughness: 0.35, metalness: 0.9 }); /* frame sdfMesh */ endPart();
+  beginPart("glass", { roughness: 0.05, opacity: 0.35 }); /* pane boxes */ endPart();
+
 ## Worley Noise Patterns
 Use worley2D/worley3D for cellular textures. Returns [F1, F2]:
 - F1 = distance to nearest cell center (smooth cells)
@@ -425,6 +540,13 @@ Every object needs: (1) accurate silhouette from multiple primitives, (2) second
 - opDisplace with fbm3D for surface imperfection
 - opRound to soften hard edges on manufactured objects
 
+## Hard-Surface Meshing
+Marching cubes (the default) rounds off every sharp edge. For buildings, furniture, boxes, chamfers (opChamfer) and steps (opStairs), pass a mesher option:
+  sdfMesh(sdfFn, colorFn, bMin, bMax, 64, { mesher: "dualContouring" });
+- "dualContouring" — snaps vertices onto corners and creases; crisp at lower resolution (48–80 is often enough)
+- "surfaceNets" — smooth, evenly spaced triangles without slivers; good for organic shapes
+Keep the default for noisy organic surfaces (bark, rock) where sharp features don't matter.
+
 ## Multi-Part Coloring
 In colorFn, evaluate individual SDF distances to determine which "part" a point is on:
   var dWood = sdBox(lx, ly, lz, ...);
@@ -443,11 +565,40 @@ Angular repetition (petals, wheels, columns):
   var localR = Math.sqrt(lx*lx + lz*lz);
   var rlx = Math.cos(angle) * localR, rlz = Math.sin(angle) * localR;
 
+## Transform Stack — Model Once, Place Many
+Model a part around the origin, then place it with translate/rotate/scale. The transform applies to everything emitted (sdfMesh, box, lathe, extrudePath, grid, emitTriangle), and normals follow it. pushTransform()/popTransform() save and restore, so each placement is independent:
+\`\`\`js
+function leg() {
+  sdfMesh(
+    function(x, y, z) { return sdTaperedCylinder(x, y, z, 0.025, 0.018, 0.22); },
+    function(x, y, z) { return [0.45, 0.3, 0.16]; },
+    [-0.05, -0.27, -0.05], [0.05, 0.27, 0.05], 48
+  );
+}
+var corners = [[-0.2, -0.2], [0.2, -0.2], [-0.2, 0.2], [0.2, 0.2]];
+for (var i = 0; i < corners.length; i++) {
+  pushTransform();
+  translate(corners[i][0], -1.28, -3 + corners[i][1]);
+  rotateZ(corners[i][0] * 0.3); // splay outwards
+  leg();
+  popTransform();
+}
+\`\`\`
+Inside a transform, bMin/bMax and the x,y,z your sdfFn/colorFn receive are LOCAL (model) coordinates — pad bounds around the origin, not the world position.
+
 ## Hollow Objects
 Shell: opShell(solidSDF, wallThickness)
 Cut opening: opIntersect(opShell(sdSphere(lx,ly,lz, R), 0.02), sdPlane(lx,ly,lz, 0,1,0, cutY))
 For cups, bowls, vases, helmets, pipes.
 
+## Flat Cut-Out Parts (2D SDF + opExtrude)
+Gears, cog wheels, arches, shield emblems, cookie-cutter signs: build the outline in 2D and extrude.
+Gothic arch doorway (cut from a wall):
+  var arch = opUnion(sd2Box(lx, ly, 0.3, 0.4), opIntersect(sd2Circle(lx - 0.15, ly - 0.4, 0.45), sd2Circle(lx + 0.15, ly - 0.4, 0.45)));
+  var wall = sdBox(lx, ly, lz, 1.0, 1.0, 0.1);
+  return opSubtract(wall, opExtrude(arch, lz, 0.2));
+Gear: opExtrude(opSubtract(sd2Star(lx, ly, 0.5, 16, 14), sd2Circle(lx, ly, 0.1)), lz, 0.05) — m close to n gives short, blunt teeth.
+
 ## Lathe — Surface of Revolution
 Ideal for rotationally symmetric objects: vases, bottles, columns, bowls, chess pieces, wine glasses.
 profile = [[radius, yOffset], ...] where yOffset=0 is the BOTTOM of the shape and yOffset increases UPWARD. The shape's bottom is placed at cy. List profile points from bottom to top.
@@ -471,6 +622,52 @@ For a circular cross-section:
     profile.push([Math.cos(a) * radius, Math.sin(a) * radius]);
   }
 
+Build paths instead of sampling curves by hand:
+- catmullRom(points, samples, closed?) — smooth curve through hand-placed control points (branches, cables, tails)
+- bezierPath(points, samples) — smooth curve pulled toward the middle points (arches, handles, hooks)
+- helixPath(cx,cy,cz, radius, height, turns, samples, endRadius?) — springs, spiral stairs rails, horns
+
+Shape the sweep with the options argument (t = 0..1 along the path):
+  // Tapering, capped branch in one call
+  extrudePath(profile, catmullRom([[0,0,0], [0.1,0.4,0.05], [0.3,0.7,0.1]], 24), true, 0.35,0.25,0.15,
+    { radius: function(t) { return 0.06 * (1 - t) + 0.01; }, caps: true });
+  // Ram horn: tightening spiral, narrowing to a point, ridged by a twisted star profile
+  extrudePath(starProfile, helixPath(0,0,0, 0.25, 0.15, 1.5, 64, 0.05), true, 0.8,0.75,0.65,
+    { scale: function(t) { return 1 - 0.9 * t; }, twist: Math.PI * 4, caps: true });
+For closed profiles with caps, build the circle with i < N (no repeated first point).
+
+## building() — Shape-Grammar Buildings
+Write the facade as rules instead of placing windows. Splits are CGA-style: numbers are absolute sizes, "~1" takes a share of the rest.
+\`\`\`js
+// Five-storey shop-front block: shop windows, ledges between floors, a cornice on top
+var block = building({
+  footprint: [1.4, 0.8], floors: 5, floorHeight: 0.26, position: [0, -1.5, -3.5], roof: "flat",
+  color: [0.7, 0.6, 0.5],
+  facade: {
+    facade: function(f) { f.split("y", [0.32, "~1", 0.06], ["shops", "upper", "cornice"]); },
+    shops: function(s) { s.repeat("x", 0.35, function(t) { t.window({ width: 0.8, height: 0.75, sill: 0.05 }); }); },
+    upper: function(s) { s.repeat("y", 0.26, "floor"); },
+    floor: function(s) { s.split("y", ["~1", 0.025], ["tiles", "ledge"]); },
+    ledge: function(s) { s.extrude(0.02); },
+    cornice: function(s) { s.extrude(0.04, [0.9, 0.88, 0.8]); }
+  }
+});
+\`\`\`
+Rules you don't define keep their defaults: tiles → repeat("x", 0.22, "tile"), tile → window(), entrance → door(), side → facade. Override front alone for a distinct street face, or side with "facade" for identical walls.
+Cottage: building({ footprint: [0.8, 0.6], floors: 2, floorHeight: 0.25, roof: "gable", roofColor: [0.45, 0.2, 0.15] }).
+Door off-centre: floor: function(s) { if (s.floor === 0 && s.side === "front") s.split("x", [0.15, 0.18, "~1"], ["tile", "entrance", "tiles"]); else s.apply("tiles"); }
+Split across layers by repeating the same options with only: "walls", "trim", "glass", "doors", "roof".
+
+## loft — Skin Between Cross-Sections
+When the cross-section changes shape along the object (square base → round neck, flat keel → wide deck), list the sections in order and loft them. Sections are [[x,y,z], ...] loops; they can have different point counts. Winding is fixed up automatically.
+  function rect(y, hx, hz) { return [[-hx,y,-hz], [hx,y,-hz], [hx,y,hz], [-hx,y,hz]]; }
+  function ring(y, r) { var o = []; for (var i = 0; i < 24; i++) { var a = i / 24 * Math.PI * 2; o.push([Math.cos(a)*r, y, Math.sin(a)*r]); } return o; }
+  // Bottle: square body blending into a round neck
+  loft([rect(0, 0.12, 0.12), rect(0.3, 0.12, 0.12), ring(0.42, 0.05), ring(0.55, 0.04)],
+    { steps: 6, samples: 32, caps: true, color: [0.2, 0.45, 0.3] });
+Use steps: 4–8 for a smooth curve through few sections; steps: 1 keeps straight spans (crisp transitions).
+Boat hull: U-shaped open sections from bow to stern with { closed: false } — e.g. [[-w,0,z], [-w*0.8,-d,z], [0,-d*1.2,z], [w*0.8,-d,z], [w,0,z]] with w, d shrinking toward the bow.
+
 ## Scale Reference
 Person ≈ 0.4–0.6 tall. Tree ≈ 0.5–1.0. Building ≈ 0.8–1.5. Small object ≈ 0.1–0.3.
 Scene center: (0, -0.5, -3). Ground: y ≈ -1.5.
@@ -533,21 +730,13 @@ lathe(0, -1.5, -3,
 // Helical tube winding upward at scene center
 var profile = [];
 var tubeR = 0.03;
-for (var i = 0; i <= 12; i++) {
+for (var i = 0; i < 12; i++) {
   var a = i / 12 * Math.PI * 2;
   profile.push([Math.cos(a) * tubeR, Math.sin(a) * tubeR]);
 }
-var path = [];
-var helixR = 0.3, pitch = 0.08;
-for (var t = 0; t < 150; t++) {
-  var a = t / 150 * Math.PI * 8; // 4 full turns
-  path.push([
-    Math.cos(a) * helixR,
-    -1.5 + t * pitch / 150 * 4,  // rise from ground
-    Math.sin(a) * helixR - 3     // centered at z=-3
-  ]);
-}
-extrudePath(profile, path, true, 0.72, 0.45, 0.20);
+// 4 full turns rising 0.32 from the ground, centered at z=-3
+var path = helixPath(0, -1.5, -3, 0.3, 0.32, 4, 150);
+extrudePath(profile, path, true, 0.72, 0.45, 0.20, { caps: true });
 \`\`\``,
 
   "math-and-patterns": `KEY RULES: sdfFn(x,y,z)→number, colorFn(x,y,z)→[r,g,b]. Three separate number args, NOT arrays. Always return. Pad bMin/bMax 20%+. Dimension args = constants only.
@@ -582,7 +771,7 @@ General Torus Knot (p,q):
 
 ## Spirals
 
-Helix: path with x=R*cos(t), y=pitch*t, z=R*sin(t). Use as extrudePath spine.
+Helix: helixPath(cx,cy,cz, R, height, turns, samples) — use as extrudePath spine. Pass endRadius for a conical spiral.
 
 Logarithmic Spiral (nautilus): r = a * exp(b*theta), b ≈ 0.3063 for golden spiral.
 
@@ -87,6 +87,11 @@ export default function App() {
                       onToggleSidebar={() => setSidebarOpen((v) => !v)}
                       onExportGLB={handleExportGLB}
                       onToggleLayerVisibility={handleToggleLayerVisibility}
+                      onBooleanLayers={chat.combineLayers}
+                      onRerollLayer={chat.rerollLayer}
+                      onShowVariations={chat.showVariations}
+                      onPickVariation={chat.pickVariation}
+                      onSetLayerParams={chat.setLayerParams}
                     />
                   }
                   onSceneReady={handleSceneReady}
@@ -1,9 +1,17 @@
 import { atom } from "jotai";
+import type { LayerParam, ParamValues } from "@/lib/procedural/params";
 
 export interface LayerInfo {
   id: string;
   description: string;
   vertexCount: number;
+  /** Material part names from beginPart(), in order of first use. */
+  parts: string[];
+  /** Slider declarations of a parametric layer, and their current values. */
+  params?: LayerParam[];
+  paramValues?: ParamValues;
+  /** A boolean result, which cannot be rerolled, varied or edited. */
+  derived?: boolean;
   visible: boolean;
 }
 
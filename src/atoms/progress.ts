@@ -0,0 +1,7 @@
+import { atom } from "jotai";
+import type { GenerationProgress } from "@/lib/procedural/engine";
+
+/** Live progress of running generate_3d_points calls, keyed by tool call id. */
+export const generationProgressAtom = atom<Record<string, GenerationProgress>>(
+  {},
+);
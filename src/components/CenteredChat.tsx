@@ -153,7 +153,7 @@ export function CenteredChat({ chat, onFirstMessage }: Props) {
             </ModelSelectorContent>
           </ModelSelector>
         </PromptInputTools>
-        <PromptInputSubmit status={chat.status} />
+        <PromptInputSubmit status={chat.status} onStop={chat.stop} />
       </PromptInputFooter>
     </PromptInput>
   );
@@ -174,7 +174,11 @@ export function CenteredChat({ chat, onFirstMessage }: Props) {
         <>
           <Conversation>
             <ConversationContent className="gap-4 p-3 max-w-2xl mx-auto w-full">
-              <ChatMessages messages={chat.messages} />
+              <ChatMessages
+                messages={chat.messages}
+                getLayerCode={chat.layerCodeForToolCall}
+                onRunCode={chat.runEditedCode}
+              />
             </ConversationContent>
             <ConversationScrollButton />
           </Conversation>
@@ -1,4 +1,8 @@
 import type { UIMessage } from "ai";
+import { useAtomValue } from "jotai";
+import { Pencil } from "lucide-react";
+import { useState } from "react";
+import { generationProgressAtom } from "@/atoms/progress";
 import { CodeBlock } from "@/components/ai-elements/code-block";
 import {
   Message,
@@ -11,15 +15,101 @@ import {
   ReasoningTrigger,
 } from "@/components/ai-elements/reasoning";
 import { Tool, ToolContent, ToolHeader } from "@/components/ai-elements/tool";
+import { LayerCodeEditor } from "@/components/LayerCodeEditor";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { userEditOf } from "@/hooks/useChatManager";
 
 const TOOL_TITLE_MAP: Record<string, string> = {
   "tool-load_skills": "load skills",
   "tool-generate_3d_points": "generate 3d",
+  "tool-update_layer": "update layer",
   "tool-remove_layer": "remove layer",
+  "tool-boolean_layers": "boolean layers",
   "tool-clear_all_layers": "clear all layers",
 };
 
-export function ChatMessages({ messages }: { messages: UIMessage[] }) {
+function GenerationProgressBar({ toolCallId }: { toolCallId: string }) {
+  const progress = useAtomValue(generationProgressAtom)[toolCallId];
+  if (!progress) return null;
+  const percent =
+    progress.slices > 0 ? (progress.slice / progress.slices) * 100 : null;
+  return (
+    <div className="grid gap-1.5 px-3 pb-3">
+      {percent !== null && <Progress value={percent} />}
+      <div className="flex justify-between text-[10px] tabular-nums text-muted-foreground">
+        <span>
+          {progress.call}
+          {percent !== null && ` ${Math.floor(percent)}%`}
+        </span>
+        <span>{progress.meshVertexCount.toLocaleString()} vertices</span>
+      </div>
+    </div>
+  );
+}
+
+interface LayerCodeProps {
+  toolCallId: string;
+  /** Code the model sent; shown once the layer is gone. */
+  code: string;
+  /**
+   * Current code of the call's layer, undefined once it is removed or
+   * replaced by a boolean result.
+   */
+  getLayerCode?: (toolCallId: string) => string | undefined;
+  onRunCode?: (toolCallId: string, code: string) => Promise<void>;
+}
+
+/** A generate_3d_points card's code, editable while its layer exists. */
+function LayerCode({
+  toolCallId,
+  code,
+  getLayerCode,
+  onRunCode,
+}: LayerCodeProps) {
+  const [editing, setEditing] = useState(false);
+  const layerCode = getLayerCode?.(toolCallId);
+
+  if (editing && layerCode !== undefined && onRunCode) {
+    return (
+      <div className="px-3 pb-3">
+        <LayerCodeEditor
+          initialCode={layerCode}
+          onRun={async (next) => {
+            await onRunCode(toolCallId, next);
+            setEditing(false);
+          }}
+          onCancel={() => setEditing(false)}
+        />
+      </div>
+    );
+  }
+  return (
+    <div className="px-3 pb-3">
+      <CodeBlock code={layerCode ?? code} language="javascript">
+        {layerCode !== undefined && onRunCode && (
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            className="absolute top-2 right-2 z-10 text-muted-foreground"
+            onClick={() => setEditing(true)}
+            aria-label="edit code"
+          >
+            <Pencil className="size-3.5" />
+          </Button>
+        )}
+      </CodeBlock>
+    </div>
+  );
+}
+
+export function ChatMessages({
+  messages,
+  getLayerCode,
+  onRunCode,
+}: {
+  messages: UIMessage[];
+} & Pick<LayerCodeProps, "getLayerCode" | "onRunCode">) {
   return (
     <>
       {messages.map((msg) => (
@@ -38,6 +128,17 @@ export function ChatMessages({ messages }: { messages: UIMessage[] }) {
                 );
               }
               if (part.type === "text") {
+                const edit = userEditOf(msg);
+                if (edit) {
+                  return (
+                    <div
+                      key={`${msg.id}-text-${i}`}
+                      className="text-xs text-muted-foreground"
+                    >
+                      edited the code of {edit.layerId} and re-ran it in place
+                    </div>
+                  );
+                }
                 return (
                   <MessageResponse key={`${msg.id}-text-${i}`}>
                     {part.text}
@@ -65,7 +166,10 @@ export function ChatMessages({ messages }: { messages: UIMessage[] }) {
                   </Tool>
                 );
               }
-              if (part.type === "tool-generate_3d_points") {
+              if (
+                part.type === "tool-generate_3d_points" ||
+                part.type === "tool-update_layer"
+              ) {
                 return (
                   <Tool key={`${msg.id}-tool-${i}`}>
                     <ToolHeader
@@ -73,14 +177,22 @@ export function ChatMessages({ messages }: { messages: UIMessage[] }) {
                       state={part.state}
                       type={part.type}
                     />
+                    {/* Outside ToolContent so it shows while collapsed, and
+                        while hand-edited code re-runs */}
+                    <GenerationProgressBar toolCallId={part.toolCallId} />
                     <ToolContent>
                       {(part.input as Record<string, string>)?.code && (
-                        <div className="px-3 pb-3">
-                          <CodeBlock
-                            code={(part.input as Record<string, string>).code}
-                            language="javascript"
-                          />
-                        </div>
+                        <LayerCode
+                          toolCallId={part.toolCallId}
+                          code={(part.input as Record<string, string>).code}
+                          getLayerCode={
+                            part.type === "tool-generate_3d_points" &&
+                            part.state === "output-available"
+                              ? getLayerCode
+                              : undefined
+                          }
+                          onRunCode={onRunCode}
+                        />
                       )}
                       {part.state === "output-available" && (
                         <div className="px-3 pb-3 text-xs text-green-600">
@@ -98,6 +210,7 @@ export function ChatMessages({ messages }: { messages: UIMessage[] }) {
               }
               if (
                 part.type === "tool-remove_layer" ||
+                part.type === "tool-boolean_layers" ||
                 part.type === "tool-clear_all_layers"
               ) {
                 const title = TOOL_TITLE_MAP[part.type] ?? part.type;
@@ -108,6 +221,10 @@ export function ChatMessages({ messages }: { messages: UIMessage[] }) {
                       state={part.state}
                       type={part.type}
                     />
+                    {part.type === "tool-boolean_layers" &&
+                      part.state === "input-available" && (
+                        <GenerationProgressBar toolCallId={part.toolCallId} />
+                      )}
                     <ToolContent>
                       {part.state === "output-available" && (
                         <div className="px-3 pb-3 text-xs text-green-600">
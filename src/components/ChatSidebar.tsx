@@ -77,7 +77,11 @@ export function ChatSidebar({ chat, open }: Props) {
               description="describe what to add to your 3d scene"
             />
           )}
-          <ChatMessages messages={chat.messages} />
+          <ChatMessages
+            messages={chat.messages}
+            getLayerCode={chat.layerCodeForToolCall}
+            onRunCode={chat.runEditedCode}
+          />
         </ConversationContent>
         <ConversationScrollButton />
       </Conversation>
@@ -165,7 +169,7 @@ export function ChatSidebar({ chat, open }: Props) {
                 </ModelSelectorContent>
               </ModelSelector>
             </PromptInputTools>
-            <PromptInputSubmit status={chat.status} />
+            <PromptInputSubmit status={chat.status} onStop={chat.stop} />
           </PromptInputFooter>
         </PromptInput>
       </div>
@@ -0,0 +1,177 @@
+import { Play } from "lucide-react";
+import {
+  type CSSProperties,
+  useDeferredValue,
+  useEffect,
+  useMemo,
+  useState,
+} from "react";
+import { createHighlighter, type ThemedToken } from "shiki";
+import { CodeBlockContainer } from "@/components/ai-elements/code-block";
+import { Button } from "@/components/ui/button";
+import { validateCode } from "@/lib/sandbox/validate";
+
+interface Props {
+  initialCode: string;
+  /** Re-run the layer with the edited code; a rejection is shown inline. */
+  onRun: (code: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+type Highlighter = Awaited<ReturnType<typeof createHighlighter>>;
+
+let highlighter: Highlighter | undefined;
+let highlighterPromise: Promise<Highlighter> | undefined;
+
+/**
+ * Shiki tokens for exactly `code`, or null until the highlighter loads.
+ * The editor does not go through CodeBlock's token cache: that one keys on
+ * the length and both ends of the code, which a same-length edit in the
+ * middle of a long snippet leaves unchanged. Once loaded, tokenizing is
+ * synchronous, so every keystroke is colored without a flash of plain text.
+ */
+function useHighlightedLines(code: string): ThemedToken[][] | null {
+  const [ready, setReady] = useState(highlighter !== undefined);
+
+  useEffect(() => {
+    if (ready) return;
+    let current = true;
+    highlighterPromise ??= createHighlighter({
+      themes: ["github-light", "github-dark"],
+      langs: ["javascript"],
+    });
+    highlighterPromise
+      .then((h) => {
+        highlighter = h;
+        if (current) setReady(true);
+      })
+      .catch((error) => console.error("Failed to highlight code:", error));
+    return () => {
+      current = false;
+    };
+  }, [ready]);
+
+  return useMemo(
+    () =>
+      ready && highlighter
+        ? highlighter.codeToTokens(code, {
+            lang: "javascript",
+            themes: { light: "github-light", dark: "github-dark" },
+          }).tokens
+        : null,
+    [ready, code],
+  );
+}
+
+/** The code as plain lines, shown until its tokens are ready. */
+function rawLines(code: string): ThemedToken[][] {
+  return code
+    .split("\n")
+    .map((line) => (line === "" ? [] : [{ content: line, offset: 0 }]));
+}
+
+/**
+ * Editable sandbox code: a transparent textarea stacked on the highlighted
+ * code, so the caret and selection are native while the colors come from
+ * shiki. Both share one grid cell and the same font, so they line up.
+ */
+export function LayerCodeEditor({ initialCode, onRun, onCancel }: Props) {
+  const [code, setCode] = useState(initialCode);
+  const [running, setRunning] = useState(false);
+  const [runError, setRunError] = useState<string | null>(null);
+  // Parse the latest code once typing pauses rather than on every key
+  const checked = useDeferredValue(code);
+  const validation = useMemo(() => validateCode(checked), [checked]);
+  const canRun = !running && validation.valid && checked === code;
+  const lines = useHighlightedLines(code) ?? rawLines(code);
+
+  const run = async () => {
+    if (!canRun) return;
+    setRunning(true);
+    setRunError(null);
+    try {
+      await onRun(code);
+    } catch (err) {
+      setRunError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="grid gap-2">
+      <CodeBlockContainer language="javascript">
+        <div className="grid max-h-96 overflow-auto">
+          <pre
+            aria-hidden
+            className="pointer-events-none m-0 p-4 text-sm [grid-area:1/1]"
+          >
+            <code className="font-mono text-sm">
+              {lines.map((line, i) => (
+                <span key={`line-${i}`} className="block">
+                  {line.length === 0
+                    ? "\n"
+                    : line.map((token, j) => (
+                        <span
+                          key={`token-${i}-${j}`}
+                          className="dark:!text-[var(--shiki-dark)]"
+                          style={
+                            {
+                              color: token.color,
+                              ...token.htmlStyle,
+                            } as CSSProperties
+                          }
+                        >
+                          {token.content}
+                        </span>
+                      ))}
+                </span>
+              ))}
+            </code>
+          </pre>
+          <textarea
+            className="resize-none overflow-hidden whitespace-pre bg-transparent p-4 font-mono text-sm text-transparent caret-foreground outline-none [grid-area:1/1]"
+            value={code}
+            wrap="off"
+            spellCheck={false}
+            aria-label="layer code"
+            aria-invalid={!validation.valid}
+            onChange={(e) => setCode(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+                e.preventDefault();
+                run();
+              } else if (e.key === "Tab" && !e.shiftKey) {
+                // Indent instead of leaving the editor
+                e.preventDefault();
+                const el = e.currentTarget;
+                const { selectionStart, selectionEnd } = el;
+                const next = `${code.slice(0, selectionStart)}  ${code.slice(selectionEnd)}`;
+                setCode(next);
+                requestAnimationFrame(() => {
+                  el.selectionStart = el.selectionEnd = selectionStart + 2;
+                });
+              }
+            }}
+          />
+        </div>
+      </CodeBlockContainer>
+      {!validation.valid && (
+        <div className="text-xs text-red-600">{validation.error}</div>
+      )}
+      {runError && <div className="text-xs text-red-600">{runError}</div>}
+      <div className="flex items-center justify-end gap-1.5">
+        <span className="mr-auto text-[10px] text-muted-foreground">
+          ctrl+enter to run
+        </span>
+        <Button variant="ghost" size="sm" onClick={onCancel}>
+          cancel
+        </Button>
+        <Button size="sm" disabled={!canRun} onClick={run} className="gap-1.5">
+          <Play className="size-3" />
+          {running ? "running…" : "run"}
+        </Button>
+      </div>
+    </div>
+  );
+}
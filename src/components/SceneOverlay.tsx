@@ -1,21 +1,38 @@
 import { useAtomValue, useSetAtom } from "jotai";
 import {
   ArrowUp,
+  Combine,
+  Dices,
   Download,
   Eye,
   EyeOff,
+  GalleryHorizontalEnd,
   Keyboard,
   Layers,
   Mouse,
   PanelRightClose,
   PanelRightOpen,
+  SlidersHorizontal,
   X,
 } from "lucide-react";
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { fpsAtom } from "@/atoms/fps";
-import { layersAtom } from "@/atoms/layers";
+import { type LayerInfo, layersAtom } from "@/atoms/layers";
 import { SettingsDialog } from "@/components/SettingsDialog";
 import { Button } from "@/components/ui/button";
+import {
+  NativeSelect,
+  NativeSelectOption,
+} from "@/components/ui/native-select";
+import {
+  BOOLEAN_OPERATIONS,
+  type BooleanOperation,
+} from "@/lib/procedural/boolean";
+import {
+  type LayerParam,
+  type ParamValues,
+  resolveParamValues,
+} from "@/lib/procedural/params";
 import { cn } from "@/lib/utils";
 
 interface Props {
@@ -23,8 +40,25 @@ interface Props {
   onToggleSidebar: () => void;
   onExportGLB?: () => void;
   onToggleLayerVisibility?: (id: string, visible: boolean) => void;
+  onBooleanLayers?: (
+    aId: string,
+    bId: string,
+    operation: BooleanOperation,
+  ) => Promise<unknown>;
+  onRerollLayer?: (id: string) => Promise<unknown>;
+  onShowVariations?: (id: string, count: number) => Promise<number[]>;
+  onPickVariation?: (index: number | null) => void;
+  onSetLayerParams?: (
+    id: string,
+    values: ParamValues,
+    signal: AbortSignal,
+  ) => Promise<unknown>;
 }
 
+const VARIATION_COUNT = 4;
+/** Quiet time after the last slider move before the layer re-runs. */
+const PARAM_DEBOUNCE_MS = 150;
+
 function Kbd({ children }: { children: React.ReactNode }) {
   return (
     <kbd className="inline-flex items-center justify-center min-w-[1.4rem] h-[1.4rem] px-1 border border-foreground/20 bg-foreground/5 text-[10px] text-foreground/70 leading-none">
@@ -55,6 +89,303 @@ function ControlRow({
   );
 }
 
+/** Inline form under a layer row: combine another layer into this one. */
+function BooleanForm({
+  layer,
+  others,
+  onApply,
+  onDone,
+}: {
+  layer: LayerInfo;
+  others: LayerInfo[];
+  onApply: NonNullable<Props["onBooleanLayers"]>;
+  onDone: () => void;
+}) {
+  const [operation, setOperation] = useState<BooleanOperation>("subtract");
+  const [otherId, setOtherId] = useState(others[0]?.id ?? "");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (others.length === 0) {
+    return (
+      <div className="text-[9px] text-foreground/30 py-1">
+        no other layer to combine with
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid gap-1 py-1">
+      <div className="flex items-center gap-1">
+        <NativeSelect
+          size="sm"
+          value={operation}
+          disabled={busy}
+          onChange={(e) => setOperation(e.target.value as BooleanOperation)}
+          aria-label="boolean operation"
+        >
+          {BOOLEAN_OPERATIONS.map((op) => (
+            <NativeSelectOption key={op} value={op}>
+              {op}
+            </NativeSelectOption>
+          ))}
+        </NativeSelect>
+        <NativeSelect
+          size="sm"
+          className="flex-1 min-w-0"
+          value={otherId}
+          disabled={busy}
+          onChange={(e) => setOtherId(e.target.value)}
+          aria-label="layer to combine with"
+        >
+          {others.map((other) => (
+            <NativeSelectOption key={other.id} value={other.id}>
+              {other.description || other.id}
+            </NativeSelectOption>
+          ))}
+        </NativeSelect>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-foreground/40 hover:text-foreground/80 hover:bg-foreground/5 h-7 px-2 text-[10px]"
+          disabled={busy || !otherId}
+          onClick={async () => {
+            setBusy(true);
+            setError(null);
+            try {
+              await onApply(layer.id, otherId, operation);
+              onDone();
+            } catch (err) {
+              setError(err instanceof Error ? err.message : String(err));
+            } finally {
+              setBusy(false);
+            }
+          }}
+        >
+          {busy ? "…" : "apply"}
+        </Button>
+      </div>
+      {error && (
+        <div className="text-[9px] text-red-500/80 break-words">{error}</div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Inline picker under a layer row. Mounting generates the variations beside
+ * the layer; unmounting without a pick discards them.
+ */
+function VariationsForm({
+  layer,
+  onShow,
+  onPick,
+  onDone,
+}: {
+  layer: LayerInfo;
+  onShow: NonNullable<Props["onShowVariations"]>;
+  onPick: NonNullable<Props["onPickVariation"]>;
+  onDone: () => void;
+}) {
+  const [seeds, setSeeds] = useState<number[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    onShow(layer.id, VARIATION_COUNT).then(
+      (next) => {
+        if (active) setSeeds(next);
+      },
+      (err) => {
+        if (active) setError(err instanceof Error ? err.message : String(err));
+      },
+    );
+    return () => {
+      active = false;
+      onPick(null);
+    };
+  }, [layer.id, onShow, onPick]);
+
+  if (error) {
+    return (
+      <div className="text-[9px] text-red-500/80 break-words py-1">{error}</div>
+    );
+  }
+  if (!seeds) {
+    return (
+      <div className="text-[9px] text-foreground/30 py-1">
+        generating {VARIATION_COUNT} variations…
+      </div>
+    );
+  }
+  return (
+    <div className="flex items-center gap-1 py-1">
+      <span className="text-[9px] text-foreground/30 mr-auto">
+        pick (left to right)
+      </span>
+      {seeds.map((seed, i) => (
+        <Button
+          key={seed}
+          variant="ghost"
+          size="sm"
+          className="text-foreground/40 hover:text-foreground/80 hover:bg-foreground/5 h-6 px-1.5 text-[10px] tabular-nums"
+          title={`seed ${seed}`}
+          onClick={() => {
+            onPick(i);
+            onDone();
+          }}
+        >
+          {i + 1}
+        </Button>
+      ))}
+      <Button
+        variant="ghost"
+        size="sm"
+        className="text-foreground/40 hover:text-foreground/80 hover:bg-foreground/5 h-6 px-1.5 text-[10px]"
+        onClick={onDone}
+      >
+        keep
+      </Button>
+    </div>
+  );
+}
+
+function ParamInput({
+  param,
+  value,
+  onChange,
+}: {
+  param: LayerParam;
+  value: number | string;
+  onChange: (value: number | string) => void;
+}) {
+  const id = `param-${param.name}`;
+  return (
+    <div className="grid grid-cols-[5rem_1fr_2.5rem] items-center gap-2">
+      <label
+        htmlFor={id}
+        className="text-[9px] text-foreground/40 truncate"
+        title={param.name}
+      >
+        {param.label ?? param.name}
+      </label>
+      {param.type === "color" ? (
+        <input
+          id={id}
+          type="color"
+          className="h-4 w-full cursor-pointer bg-transparent"
+          value={value as string}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      ) : (
+        <input
+          id={id}
+          type="range"
+          className="h-1 w-full cursor-pointer accent-foreground/60"
+          min={param.min}
+          max={param.max}
+          step={param.step ?? ((param.max ?? 1) - (param.min ?? 0)) / 100}
+          value={value as number}
+          onChange={(e) => onChange(Number(e.target.value))}
+        />
+      )}
+      <span className="text-[9px] tabular-nums text-foreground/30 text-right">
+        {typeof value === "number" ? Number(value.toPrecision(3)) : ""}
+      </span>
+    </div>
+  );
+}
+
+/**
+ * Sliders and color pickers for a parametric layer. The layer re-runs once
+ * the values stop changing; a newer change cancels a run still in flight.
+ */
+function ParamsForm({
+  layer,
+  onSetParams,
+}: {
+  layer: LayerInfo;
+  onSetParams: NonNullable<Props["onSetLayerParams"]>;
+}) {
+  const params = layer.params ?? [];
+  const [values, setValues] = useState<ParamValues>(() =>
+    resolveParamValues(params, layer.paramValues),
+  );
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const valuesRef = useRef(values);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const runRef = useRef<AbortController | null>(null);
+
+  const run = () => {
+    timerRef.current = undefined;
+    runRef.current?.abort();
+    const controller = new AbortController();
+    runRef.current = controller;
+    setBusy(true);
+    setError(null);
+    onSetParams(layer.id, valuesRef.current, controller.signal).then(
+      () => {
+        if (runRef.current === controller) setBusy(false);
+      },
+      (err) => {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : String(err));
+        setBusy(false);
+      },
+    );
+  };
+  const runLatest = useRef(run);
+  runLatest.current = run;
+
+  // Closing the panel mid-debounce still applies the last change
+  useEffect(
+    () => () => {
+      if (timerRef.current !== undefined) {
+        clearTimeout(timerRef.current);
+        runLatest.current();
+      }
+    },
+    [],
+  );
+
+  const change = (next: ParamValues) => {
+    valuesRef.current = next;
+    setValues(next);
+    clearTimeout(timerRef.current);
+    timerRef.current = setTimeout(() => runLatest.current(), PARAM_DEBOUNCE_MS);
+  };
+
+  return (
+    <div className="grid gap-1 py-1">
+      {params.map((param) => (
+        <ParamInput
+          key={param.name}
+          param={param}
+          value={values[param.name]}
+          onChange={(value) => change({ ...values, [param.name]: value })}
+        />
+      ))}
+      <div className="flex items-center justify-between">
+        <span className="text-[9px] text-foreground/25">
+          {busy ? "updating…" : ""}
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-foreground/40 hover:text-foreground/80 hover:bg-foreground/5 h-6 px-1.5 text-[10px]"
+          onClick={() => change(resolveParamValues(params))}
+        >
+          reset
+        </Button>
+      </div>
+      {error && (
+        <div className="text-[9px] text-red-500/80 break-words">{error}</div>
+      )}
+    </div>
+  );
+}
+
 function FpsCounter() {
   const fps = useAtomValue(fpsAtom);
   return (
@@ -69,9 +400,25 @@ export function SceneOverlay({
   onToggleSidebar,
   onExportGLB,
   onToggleLayerVisibility,
+  onBooleanLayers,
+  onRerollLayer,
+  onShowVariations,
+  onPickVariation,
+  onSetLayerParams,
 }: Props) {
   const [showControls, setShowControls] = useState(false);
   const [showLayers, setShowLayers] = useState(false);
+  /** Layer whose boolean form is open, if any. */
+  const [combiningId, setCombiningId] = useState<string | null>(null);
+  /** Layer whose param sliders are open, if any. */
+  const [paramsId, setParamsId] = useState<string | null>(null);
+  /** Layer whose variations are shown beside it, if any. */
+  const [variationsId, setVariationsId] = useState<string | null>(null);
+  const [rerollingId, setRerollingId] = useState<string | null>(null);
+  const [rerollError, setRerollError] = useState<{
+    id: string;
+    message: string;
+  } | null>(null);
   const layers = useAtomValue(layersAtom);
   const setLayers = useSetAtom(layersAtom);
 
@@ -213,40 +560,177 @@ export function SceneOverlay({
                 layers
               </div>
               {layers.map((layer) => (
-                <div
-                  key={layer.id}
-                  className="flex items-center justify-between gap-2"
-                >
-                  <span className="text-[10px] text-foreground/50 truncate flex-1">
-                    {layer.description || layer.id}
-                  </span>
-                  <span className="text-[9px] tabular-nums text-foreground/25 shrink-0">
-                    {layer.vertexCount >= 1000
-                      ? `${Math.round(layer.vertexCount / 1000)}k`
-                      : layer.vertexCount}{" "}
-                    verts
-                  </span>
-                  <Button
-                    variant="ghost"
-                    size="icon-sm"
-                    className="text-foreground/40 hover:text-foreground/80 hover:bg-foreground/5 size-5"
-                    onClick={() => {
-                      const newVisible = !layer.visible;
-                      setLayers((prev) =>
-                        prev.map((l) =>
-                          l.id === layer.id ? { ...l, visible: newVisible } : l,
-                        ),
-                      );
-                      onToggleLayerVisibility?.(layer.id, newVisible);
-                    }}
-                    aria-label={layer.visible ? "hide layer" : "show layer"}
-                  >
-                    {layer.visible ? (
-                      <Eye className="size-3" />
-                    ) : (
-                      <EyeOff className="size-3" />
+                <div key={layer.id}>
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-[10px] text-foreground/50 truncate flex-1">
+                      {layer.description || layer.id}
+                    </span>
+                    <span className="text-[9px] tabular-nums text-foreground/25 shrink-0">
+                      {layer.vertexCount >= 1000
+                        ? `${Math.round(layer.vertexCount / 1000)}k`
+                        : layer.vertexCount}{" "}
+                      verts
+                    </span>
+                    {onSetLayerParams && layer.params && !layer.derived && (
+                      <Button
+                        variant="ghost"
+                        size="icon-sm"
+                        className={cn(
+                          "hover:text-foreground/80 hover:bg-foreground/5 size-5",
+                          paramsId === layer.id
+                            ? "text-foreground/80"
+                            : "text-foreground/40",
+                        )}
+                        onClick={() =>
+                          setParamsId((id) =>
+                            id === layer.id ? null : layer.id,
+                          )
+                        }
+                        aria-label="adjust parameters"
+                      >
+                        <SlidersHorizontal className="size-3" />
+                      </Button>
+                    )}
+                    {onRerollLayer && !layer.derived && (
+                      <Button
+                        variant="ghost"
+                        size="icon-sm"
+                        className="text-foreground/40 hover:text-foreground/80 hover:bg-foreground/5 size-5"
+                        disabled={rerollingId !== null}
+                        onClick={async () => {
+                          setRerollingId(layer.id);
+                          setRerollError(null);
+                          try {
+                            await onRerollLayer(layer.id);
+                          } catch (err) {
+                            setRerollError({
+                              id: layer.id,
+                              message:
+                                err instanceof Error
+                                  ? err.message
+                                  : String(err),
+                            });
+                          } finally {
+                            setRerollingId(null);
+                          }
+                        }}
+                        aria-label="reroll with a new seed"
+                      >
+                        <Dices
+                          className={cn(
+                            "size-3",
+                            rerollingId === layer.id && "animate-pulse",
+                          )}
+                        />
+                      </Button>
+                    )}
+                    {onShowVariations && onPickVariation && !layer.derived && (
+                      <Button
+                        variant="ghost"
+                        size="icon-sm"
+                        className={cn(
+                          "hover:text-foreground/80 hover:bg-foreground/5 size-5",
+                          variationsId === layer.id
+                            ? "text-foreground/80"
+                            : "text-foreground/40",
+                        )}
+                        onClick={() =>
+                          setVariationsId((id) =>
+                            id === layer.id ? null : layer.id,
+                          )
+                        }
+                        aria-label="show seed variations"
+                      >
+                        <GalleryHorizontalEnd className="size-3" />
+                      </Button>
+                    )}
+                    {onBooleanLayers && (
+                      <Button
+                        variant="ghost"
+                        size="icon-sm"
+                        className={cn(
+                          "hover:text-foreground/80 hover:bg-foreground/5 size-5",
+                          combiningId === layer.id
+                            ? "text-foreground/80"
+                            : "text-foreground/40",
+                        )}
+                        onClick={() =>
+                          setCombiningId((id) =>
+                            id === layer.id ? null : layer.id,
+                          )
+                        }
+                        aria-label="combine with another layer"
+                      >
+                        <Combine className="size-3" />
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon-sm"
+                      className="text-foreground/40 hover:text-foreground/80 hover:bg-foreground/5 size-5"
+                      onClick={() => {
+                        const newVisible = !layer.visible;
+                        setLayers((prev) =>
+                          prev.map((l) =>
+                            l.id === layer.id
+                              ? { ...l, visible: newVisible }
+                              : l,
+                          ),
+                        );
+                        onToggleLayerVisibility?.(layer.id, newVisible);
+                      }}
+                      aria-label={layer.visible ? "hide layer" : "show layer"}
+                    >
+                      {layer.visible ? (
+                        <Eye className="size-3" />
+                      ) : (
+                        <EyeOff className="size-3" />
+                      )}
+                    </Button>
+                  </div>
+                  {rerollError?.id === layer.id && (
+                    <div className="text-[9px] text-red-500/80 break-words py-1">
+                      {rerollError.message}
+                    </div>
+                  )}
+                  {onSetLayerParams &&
+                    layer.params &&
+                    paramsId === layer.id && (
+                      <ParamsForm
+                        layer={layer}
+                        onSetParams={onSetLayerParams}
+                      />
+                    )}
+                  {onShowVariations &&
+                    onPickVariation &&
+                    variationsId === layer.id && (
+                      <VariationsForm
+                        layer={layer}
+                        onShow={onShowVariations}
+                        onPick={onPickVariation}
+                        onDone={() => setVariationsId(null)}
+                      />
                     )}
-                  </Button>
+                  {onBooleanLayers && combiningId === layer.id && (
+                    <BooleanForm
+                      layer={layer}
+                      others={layers.filter((l) => l.id !== layer.id)}
+                      onApply={onBooleanLayers}
+                      onDone={() => setCombiningId(null)}
+                    />
+                  )}
+                  {layer.parts.length > 0 && (
+                    <div className="pl-2 border-l border-foreground/10 ml-0.5">
+                      {layer.parts.map((part) => (
+                        <div
+                          key={part}
+                          className="text-[9px] text-foreground/30 truncate"
+                        >
+                          {part}
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
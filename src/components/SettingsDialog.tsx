@@ -1,6 +1,7 @@
 import { Settings } from "lucide-react";
 import { useCallback, useState } from "react";
 import { KeysForm } from "@/components/settings/KeysForm";
+import { WorkersRow } from "@/components/settings/WorkersRow";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogTrigger } from "@/components/ui/dialog";
 import { useKeysForm } from "@/hooks/useKeysForm";
@@ -40,6 +41,8 @@ export function SettingsDialog() {
           configuredCount={configuredCount}
           onSave={onSave}
         />
+        <div className="h-px bg-foreground/[0.06]" />
+        <WorkersRow />
       </DialogContent>
     </Dialog>
   );
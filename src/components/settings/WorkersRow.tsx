@@ -0,0 +1,51 @@
+import { useState } from "react";
+import {
+  NativeSelect,
+  NativeSelectOption,
+} from "@/components/ui/native-select";
+import {
+  loadSettings,
+  MAX_WORKER_CONCURRENCY,
+  saveSettings,
+} from "@/lib/settings";
+
+const WORKER_OPTIONS = Array.from(
+  { length: MAX_WORKER_CONCURRENCY },
+  (_, i) => i + 1,
+);
+
+/** Worker count for parallel sdfMesh — saved as soon as it changes. */
+export function WorkersRow() {
+  const [workers, setWorkers] = useState(
+    () => loadSettings().workerConcurrency,
+  );
+
+  return (
+    <div className="flex items-center justify-between gap-3 px-4 py-3">
+      <label htmlFor="worker-concurrency" className="grid gap-0.5">
+        <span className="text-[10px] tracking-[0.1em] text-foreground/30">
+          generation workers
+        </span>
+        <span className="text-[9px] text-foreground/15">
+          parallel threads for sdf meshing
+        </span>
+      </label>
+      <NativeSelect
+        id="worker-concurrency"
+        size="sm"
+        value={workers}
+        onChange={(e) => {
+          const next = Number(e.target.value);
+          setWorkers(next);
+          saveSettings({ ...loadSettings(), workerConcurrency: next });
+        }}
+      >
+        {WORKER_OPTIONS.map((n) => (
+          <NativeSelectOption key={n} value={n}>
+            {n}
+          </NativeSelectOption>
+        ))}
+      </NativeSelect>
+    </div>
+  );
+}
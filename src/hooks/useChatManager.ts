@@ -1,18 +1,36 @@
 import { useChat } from "@ai-sdk/react";
 import {
   DefaultChatTransport,
+  generateId,
   lastAssistantMessageIsCompleteWithToolCalls,
+  type UIMessage,
 } from "ai";
 import { useSetAtom } from "jotai";
 import { useCallback, useMemo, useRef, useState } from "react";
-import { layersAtom } from "@/atoms/layers";
+import { type LayerInfo, layersAtom } from "@/atoms/layers";
+import { generationProgressAtom } from "@/atoms/progress";
+import {
+  type BooleanOperation,
+  type BooleanOptions,
+  booleanLayers,
+} from "@/lib/procedural/boolean";
 import {
   computeLayerBounds,
+  countLayerVertices,
   executeProceduralCode,
   type GeneratedLayer,
+  type GenerationProgress,
   type LayerMeta,
+  lazyLayerGeometry,
+  randomSeed,
   type SceneBounds,
+  translateLayer,
 } from "@/lib/procedural/engine";
+import {
+  formatParamValues,
+  type LayerParam,
+  type ParamValues,
+} from "@/lib/procedural/params";
 import {
   analyzeSpatialRelationships,
   formatSpatialAnalysis,
@@ -32,7 +50,11 @@ import {
 } from "@/lib/settings";
 
 function formatLayerOutput(layer: GeneratedLayer, meta: LayerMeta): string {
-  const triangles = Math.floor(layer.meshVertexCount / 3);
+  let indexCount = layer.meshIndices.length;
+  for (const part of layer.instances ?? []) {
+    indexCount += part.meshIndices.length;
+  }
+  const triangles = Math.floor(indexCount / 3);
   const b = meta.bounds;
   const fmt = (n: number) => n.toFixed(2);
   const size: [number, number, number] = [
@@ -50,13 +72,108 @@ function formatLayerOutput(layer: GeneratedLayer, meta: LayerMeta): string {
     b.min[1],
     b.center[2],
   ];
-  return [
-    `generated ${triangles} triangles (layer: ${layer.id})`,
+  const lines = [
+    `generated ${triangles} triangles, ${countLayerVertices(layer)} vertices (layer: ${layer.id})`,
     `  bounds: min=[${b.min.map(fmt)}] max=[${b.max.map(fmt)}]`,
     `  center: [${b.center.map(fmt)}]`,
     `  top-center: [${topCenter.map(fmt)}]  bottom-center: [${bottomCenter.map(fmt)}]`,
     `  size: [${size.map(fmt)}]`,
-    `  use LAYERS["${layer.id}"] in subsequent code to reference these bounds`,
+  ];
+  if (layer.groups) {
+    const parts = layer.groups.map(
+      (g) => `${g.name} (${Math.floor(g.count / 3)} triangles)`,
+    );
+    lines.push(`  material parts: ${parts.join(", ")}`);
+  }
+  if (layer.bakedTexture) {
+    const { size } = layer.bakedTexture;
+    lines.push(`  texture: colors baked into a ${size}x${size} atlas`);
+  }
+  if (layer.instances) {
+    const copies = layer.instances.reduce((n, p) => n + p.instanceCount, 0);
+    lines.push(
+      `  instanced: ${copies} copies of ${layer.instances.length} prototype(s), drawn with GPU instancing`,
+    );
+  }
+  if (layer.stats) {
+    const { sdfEvaluations, sdfGridPoints } = layer.stats;
+    const speedup = sdfGridPoints / Math.max(sdfEvaluations, 1);
+    lines.push(
+      `  sdf evaluations: ${sdfEvaluations.toLocaleString()} (dense grid: ${sdfGridPoints.toLocaleString()} points, ${speedup.toFixed(1)}x)`,
+    );
+  }
+  if (layer.heightmap) {
+    const { resX, resZ } = layer.heightmap;
+    lines.push(
+      `  heightmap: ${resX}x${resZ} cells, sample it with LAYERS["${layer.id}"].heightmap.sample(x, z)`,
+    );
+  }
+  if (layer.params && layer.paramValues) {
+    const ranges = layer.params.map((p) =>
+      p.type === "color"
+        ? `${p.name} (color)`
+        : `${p.name} (${p.min}–${p.max})`,
+    );
+    lines.push(
+      `  params: ${formatParamValues(layer.paramValues)}; the user can adjust ${ranges.join(", ")} with sliders`,
+    );
+  }
+  if (!layer.derived) {
+    lines.push(
+      `  seed: ${layer.seed} (pass it as seed to rebuild this layer exactly)`,
+    );
+  }
+  lines.push(
+    `  use LAYERS["${layer.id}"] in subsequent code to reference these bounds, and .heightAt(x, z) / .raycast / .closestPoint to rest objects on its surface`,
+  );
+  return lines.join("\n");
+}
+
+function toLayerInfo(layer: GeneratedLayer, description: string): LayerInfo {
+  return {
+    id: layer.id,
+    description,
+    vertexCount: countLayerVertices(layer),
+    parts: layer.groups?.map((g) => g.name) ?? [],
+    params: layer.params,
+    paramValues: layer.paramValues,
+    derived: layer.derived,
+    visible: true,
+  };
+}
+
+/**
+ * Metadata of the message that records a hand edit of a generate_3d_points
+ * call's code. Its text is the note the model reads; the chat shows a short
+ * line instead.
+ */
+export interface UserEditMetadata {
+  userEdit: { toolCallId: string; layerId: string };
+}
+
+export function userEditOf(
+  message: UIMessage,
+): UserEditMetadata["userEdit"] | undefined {
+  return (message.metadata as Partial<UserEditMetadata> | undefined)?.userEdit;
+}
+
+/** Scene id of the i-th variation preview of a layer. */
+function variationPreviewId(id: string, index: number): string {
+  return `${id}:variation-${index + 1}`;
+}
+
+/** How an updated layer's box moved and resized, for the update_layer output. */
+function formatBoundsDiff(before: LayerMeta, after: LayerMeta): string {
+  const fmt = (n: number) => n.toFixed(2);
+  const signed = (n: number) => (n >= 0 ? "+" : "") + n.toFixed(2);
+  const size = (b: LayerMeta["bounds"]) => b.max.map((v, i) => v - b.min[i]);
+  const sizeBefore = size(before.bounds);
+  const sizeAfter = size(after.bounds);
+  return [
+    `  bounds before: min=[${before.bounds.min.map(fmt)}] max=[${before.bounds.max.map(fmt)}]`,
+    `  bounds after:  min=[${after.bounds.min.map(fmt)}] max=[${after.bounds.max.map(fmt)}]`,
+    `  center moved by [${after.bounds.center.map((v, i) => signed(v - before.bounds.center[i]))}], size [${sizeBefore.map(fmt)}] -> [${sizeAfter.map(fmt)}]`,
+    `  vertices: ${before.meshVertexCount} -> ${after.meshVertexCount}`,
   ].join("\n");
 }
 
@@ -70,6 +187,7 @@ export function useChatManager(
   options: ChatManagerOptions,
 ) {
   const setLayers = useSetAtom(layersAtom);
+  const setGenerationProgress = useSetAtom(generationProgressAtom);
 
   const optionsRef = useRef(options);
   optionsRef.current = options;
@@ -79,12 +197,245 @@ export function useChatManager(
   const activeLayersRef = useRef<Map<string, GeneratedLayer>>(new Map());
   /** Per-layer spatial metadata sent to the LLM for positioning awareness. */
   const layerMetaRef = useRef<Map<string, LayerMeta>>(new Map());
+  /** One controller per procedural run in flight; stop() aborts them all. */
+  const runsRef = useRef<Set<AbortController>>(new Set());
+  /** Set by stop() so the cancelled tool result is not sent back automatically. */
+  const stoppedRef = useRef(false);
+
+  /**
+   * Register a run for stop() to abort. The signal also follows the
+   * caller's own, if given; call done() once the run settles.
+   */
+  const trackRun = useCallback((signal?: AbortSignal) => {
+    const controller = new AbortController();
+    runsRef.current.add(controller);
+    return {
+      signal: signal
+        ? AbortSignal.any([signal, controller.signal])
+        : controller.signal,
+      done: () => runsRef.current.delete(controller),
+    };
+  }, []);
 
   const [selectedModel, setSelectedModel] = useState(
     () => loadSettings().selectedModel,
   );
   const [modelSelectorOpen, setModelSelectorOpen] = useState(false);
 
+  /**
+   * Swap in a rebuilt version of an existing layer under the same id,
+   * keeping its description unless given a new one.
+   */
+  const replaceLayer = useCallback(
+    (
+      layer: GeneratedLayer,
+      description = layerMetaRef.current.get(layer.id)?.description ?? "",
+    ): LayerMeta => {
+      const meta: LayerMeta = {
+        ...computeLayerBounds(layer),
+        description,
+        heightmap: layer.heightmap,
+        geometry: lazyLayerGeometry(layer),
+      };
+      activeLayersRef.current.set(layer.id, layer);
+      layerMetaRef.current.set(layer.id, meta);
+      sceneHandleRef.current?.addLayer(layer);
+      setLayers((prev) =>
+        prev.map((l) =>
+          l.id === layer.id ? toLayerInfo(layer, meta.description) : l,
+        ),
+      );
+      return meta;
+    },
+    [sceneHandleRef, setLayers],
+  );
+
+  const getActiveLayer = useCallback((id: string): GeneratedLayer => {
+    const layer = activeLayersRef.current.get(id);
+    if (!layer) {
+      throw new Error(
+        `layer "${id}" not found. active layers: ${Array.from(activeLayersRef.current.keys()).join(", ") || "none"}`,
+      );
+    }
+    return layer;
+  }, []);
+
+  /**
+   * Replace layer A with A subtract/union/intersect B. A keeps its id and
+   * description; B is left in place for the caller to remove.
+   */
+  const combineLayers = useCallback(
+    async (
+      aId: string,
+      bId: string,
+      operation: BooleanOperation,
+      options: Omit<BooleanOptions, "concurrency"> = {},
+    ): Promise<{ layer: GeneratedLayer; meta: LayerMeta }> => {
+      const a = getActiveLayer(aId);
+      const b = getActiveLayer(bId);
+      if (aId === bId) {
+        throw new Error("layerA and layerB must be different layers");
+      }
+      const run = trackRun(options.signal);
+      try {
+        const layer = await booleanLayers(a, b, operation, boundsRef.current, {
+          ...options,
+          signal: run.signal,
+          concurrency: loadSettings().workerConcurrency,
+        });
+        return { layer, meta: replaceLayer(layer) };
+      } finally {
+        run.done();
+      }
+    },
+    [boundsRef, getActiveLayer, replaceLayer, trackRun],
+  );
+
+  /**
+   * Run a layer's code again, keeping its id, with another seed and/or
+   * other code or param values (its current ones by default).
+   */
+  const rerunLayer = useCallback(
+    async (
+      source: GeneratedLayer,
+      seed: number,
+      {
+        code = source.code,
+        paramValues = source.paramValues,
+        signal,
+        onProgress,
+      }: {
+        code?: string;
+        paramValues?: ParamValues;
+        signal?: AbortSignal;
+        onProgress?: (progress: GenerationProgress) => void;
+      } = {},
+    ): Promise<GeneratedLayer> => {
+      if (source.derived) {
+        throw new Error(
+          `${source.id} is the result of a boolean operation and cannot be re-run; generate it again instead`,
+        );
+      }
+      const run = trackRun(signal);
+      try {
+        const layer = await executeProceduralCode(
+          code,
+          boundsRef.current,
+          seed,
+          Array.from(layerMetaRef.current.values()).filter(
+            (m) => m.id !== source.id,
+          ),
+          {
+            concurrency: loadSettings().workerConcurrency,
+            signal: run.signal,
+            onProgress,
+            params: source.params,
+            paramValues,
+          },
+        );
+        return { ...layer, id: source.id };
+      } finally {
+        run.done();
+      }
+    },
+    [boundsRef, trackRun],
+  );
+
+  /** Re-execute a layer's code in place with a new seed. */
+  const rerollLayer = useCallback(
+    async (id: string): Promise<GeneratedLayer> => {
+      const layer = await rerunLayer(getActiveLayer(id), randomSeed());
+      replaceLayer(layer);
+      return layer;
+    },
+    [getActiveLayer, replaceLayer, rerunLayer],
+  );
+
+  /**
+   * Re-execute a parametric layer with new PARAMS values, same seed. An
+   * aborted call (superseded by a newer value) rejects and changes nothing.
+   */
+  const setLayerParams = useCallback(
+    async (
+      id: string,
+      paramValues: ParamValues,
+      signal?: AbortSignal,
+    ): Promise<GeneratedLayer> => {
+      const source = getActiveLayer(id);
+      const layer = await rerunLayer(source, source.seed, {
+        paramValues,
+        signal,
+      });
+      replaceLayer(layer);
+      return layer;
+    },
+    [getActiveLayer, replaceLayer, rerunLayer],
+  );
+
+  /** Variations of one layer waiting to be picked, shown beside it. */
+  const variationsRef = useRef<{
+    id: string;
+    controller: AbortController;
+    layers: GeneratedLayer[];
+  } | null>(null);
+
+  const clearVariationPreviews = useCallback(() => {
+    const current = variationsRef.current;
+    if (!current) return;
+    current.controller.abort();
+    sceneHandleRef.current?.clearPreviews();
+    variationsRef.current = null;
+  }, [sceneHandleRef]);
+
+  /**
+   * Generate `count` new seeds of a layer and show each one beside it, in a
+   * row along +x. Resolves with the seeds, in preview order.
+   */
+  const showVariations = useCallback(
+    async (id: string, count: number): Promise<number[]> => {
+      clearVariationPreviews();
+      const source = getActiveLayer(id);
+      const current = {
+        id,
+        controller: new AbortController(),
+        layers: [] as GeneratedLayer[],
+      };
+      variationsRef.current = current;
+      const { bounds } = computeLayerBounds(source);
+      const step = Math.max(bounds.max[0] - bounds.min[0], 0.5) * 1.25;
+      for (let i = 0; i < count; i++) {
+        const layer = await rerunLayer(source, randomSeed(), {
+          signal: current.controller.signal,
+        });
+        // Picked or discarded while this one was still running
+        if (variationsRef.current !== current) {
+          throw new Error("variations discarded");
+        }
+        current.layers.push(layer);
+        sceneHandleRef.current?.addPreview(
+          translateLayer(layer, variationPreviewId(id, i), [
+            step * (i + 1),
+            0,
+            0,
+          ]),
+        );
+      }
+      return current.layers.map((layer) => layer.seed);
+    },
+    [clearVariationPreviews, getActiveLayer, rerunLayer, sceneHandleRef],
+  );
+
+  /** Replace the layer with one of its variations, or keep it (null). */
+  const pickVariation = useCallback(
+    (index: number | null) => {
+      const chosen =
+        index === null ? undefined : variationsRef.current?.layers[index];
+      clearVariationPreviews();
+      if (chosen) replaceLayer(chosen);
+    },
+    [clearVariationPreviews, replaceLayer],
+  );
+
   const handleModelChange = useCallback((value: string) => {
     setSelectedModel(value);
     const s = loadSettings();
@@ -97,33 +448,61 @@ export function useChatManager(
         api: "/api/chat",
         body: () => ({
           sceneBounds: boundsRef.current,
-          activeLayers: Array.from(layerMetaRef.current.values()),
+          // Heightmaps and triangles stay client-side; the model only needs
+          // to know a heightmap exists
+          activeLayers: Array.from(
+            layerMetaRef.current.values(),
+            ({ heightmap, geometry, ...meta }) => ({
+              ...meta,
+              hasHeightmap: heightmap !== undefined,
+            }),
+          ),
         }),
         headers: () => buildRequestHeaders(loadSettings()),
       }),
     [boundsRef],
   );
 
-  const { messages, sendMessage, addToolOutput, status } = useChat({
+  /** Layer each generate_3d_points call created, for editing its code later. */
+  const toolCallLayersRef = useRef<Map<string, string>>(new Map());
+
+  const chat = useChat({
     transport,
-    sendAutomaticallyWhen: lastAssistantMessageIsCompleteWithToolCalls,
+    sendAutomaticallyWhen: (opts) =>
+      !stoppedRef.current && lastAssistantMessageIsCompleteWithToolCalls(opts),
     onToolCall: async ({ toolCall }) => {
       if (toolCall.toolName === "generate_3d_points") {
         const input = toolCall.input as {
           code: string;
           description?: string;
+          seed?: number;
+          params?: LayerParam[];
         };
+        const run = trackRun();
         try {
           const layer: GeneratedLayer = await executeProceduralCode(
             input.code,
             boundsRef.current,
-            undefined,
+            input.seed,
             Array.from(layerMetaRef.current.values()),
+            {
+              concurrency: loadSettings().workerConcurrency,
+              signal: run.signal,
+              onProgress: (progress) =>
+                setGenerationProgress((prev) => ({
+                  ...prev,
+                  [toolCall.toolCallId]: progress,
+                })),
+              params: input.params,
+            },
           );
           activeLayersRef.current.set(layer.id, layer);
+          toolCallLayersRef.current.set(toolCall.toolCallId, layer.id);
           const meta: LayerMeta = {
             ...computeLayerBounds(layer),
             description: input.description ?? "",
+            heightmap: layer.heightmap,
+            geometry: lazyLayerGeometry(layer),
           };
           // Analyze spatial relationships BEFORE adding to the map
           // so the new layer isn't compared against itself
@@ -141,12 +520,7 @@ export function useChatManager(
           }
           setLayers((prev) => [
             ...prev,
-            {
-              id: layer.id,
-              description: input.description ?? "",
-              vertexCount: layer.meshVertexCount,
-              visible: true,
-            },
+            toLayerInfo(layer, input.description ?? ""),
           ]);
           // Check for mesh quality warnings and include them in tool output
           const meshVal = validateMeshOutput(layer);
@@ -167,7 +541,17 @@ export function useChatManager(
             tool: "generate_3d_points",
             toolCallId: toolCall.toolCallId,
             state: "output-error",
-            errorText: err instanceof Error ? err.message : "execution failed",
+            errorText: run.signal.aborted
+              ? "cancelled by user — the user stopped this generation. Do not retry it unless they ask."
+              : err instanceof Error
+                ? err.message
+                : "execution failed",
+          });
+        } finally {
+          run.done();
+          setGenerationProgress((prev) => {
+            const { [toolCall.toolCallId]: _, ...rest } = prev;
+            return rest;
           });
         }
       } else if (toolCall.toolName === "remove_layer") {
@@ -176,6 +560,9 @@ export function useChatManager(
         if (handle) {
           const exists = handle.getLayerIds().includes(input.layerId);
           if (exists) {
+            if (variationsRef.current?.id === input.layerId) {
+              clearVariationPreviews();
+            }
             handle.removeLayer(input.layerId);
             activeLayersRef.current.delete(input.layerId);
             layerMetaRef.current.delete(input.layerId);
@@ -194,10 +581,136 @@ export function useChatManager(
             });
           }
         }
+      } else if (toolCall.toolName === "update_layer") {
+        const input = toolCall.input as {
+          layerId: string;
+          code: string;
+          description?: string;
+          seed?: number;
+          params?: LayerParam[];
+        };
+        const run = trackRun();
+        try {
+          const source = getActiveLayer(input.layerId);
+          const before = layerMetaRef.current.get(input.layerId);
+          // The layer's old geometry is not a LAYERS entry for its own code
+          const others = Array.from(layerMetaRef.current.values()).filter(
+            (m) => m.id !== input.layerId,
+          );
+          const generated = await executeProceduralCode(
+            input.code,
+            boundsRef.current,
+            input.seed ?? source.seed,
+            others,
+            {
+              concurrency: loadSettings().workerConcurrency,
+              signal: run.signal,
+              onProgress: (progress) =>
+                setGenerationProgress((prev) => ({
+                  ...prev,
+                  [toolCall.toolCallId]: progress,
+                })),
+              params: input.params ?? source.params,
+              paramValues: source.paramValues,
+            },
+          );
+          const layer: GeneratedLayer = { ...generated, id: input.layerId };
+          const meta = replaceLayer(
+            layer,
+            input.description ?? before?.description ?? "",
+          );
+          const spatial = analyzeSpatialRelationships(meta, others);
+          const meshVal = validateMeshOutput(layer);
+          let output = `updated ${layer.id} in place — the ID is unchanged, so LAYERS["${layer.id}"] references stay valid`;
+          if (before) {
+            output += `\n${formatBoundsDiff(before, meta)}`;
+          }
+          output += `\n${formatLayerOutput(layer, meta)}`;
+          output += `\n  layers built earlier from LAYERS["${layer.id}"] were not re-run; update them too if they depend on its shape`;
+          if (spatial) {
+            output += formatSpatialAnalysis(spatial);
+          }
+          if (meshVal.warnings.length > 0) {
+            output += `\n\nwarnings:\n${meshVal.warnings.map((w) => `- ${w}`).join("\n")}`;
+          }
+          addToolOutput({
+            tool: "update_layer",
+            toolCallId: toolCall.toolCallId,
+            output,
+          });
+        } catch (err) {
+          addToolOutput({
+            tool: "update_layer",
+            toolCallId: toolCall.toolCallId,
+            state: "output-error",
+            errorText: run.signal.aborted
+              ? "cancelled by user — the user stopped this generation. Do not retry it unless they ask."
+              : err instanceof Error
+                ? err.message
+                : "execution failed",
+          });
+        } finally {
+          run.done();
+          setGenerationProgress((prev) => {
+            const { [toolCall.toolCallId]: _, ...rest } = prev;
+            return rest;
+          });
+        }
+      } else if (toolCall.toolName === "boolean_layers") {
+        const input = toolCall.input as {
+          layerA: string;
+          layerB: string;
+          operation: BooleanOperation;
+          resolution?: number;
+        };
+        const run = trackRun();
+        try {
+          const { layer, meta } = await combineLayers(
+            input.layerA,
+            input.layerB,
+            input.operation,
+            {
+              resolution: input.resolution,
+              signal: run.signal,
+              onProgress: (progress) =>
+                setGenerationProgress((prev) => ({
+                  ...prev,
+                  [toolCall.toolCallId]: progress,
+                })),
+            },
+          );
+          addToolOutput({
+            tool: "boolean_layers",
+            toolCallId: toolCall.toolCallId,
+            output: [
+              `${input.operation}: ${input.layerA} ${input.operation === "subtract" ? "minus" : "with"} ${input.layerB}, re-meshed into ${input.layerA} as a single mesh (material parts and instancing are not kept)`,
+              formatLayerOutput(layer, meta),
+              `  ${input.layerB} is still in the scene — remove_layer it if it was only a cutter`,
+            ].join("\n"),
+          });
+        } catch (err) {
+          addToolOutput({
+            tool: "boolean_layers",
+            toolCallId: toolCall.toolCallId,
+            state: "output-error",
+            errorText: run.signal.aborted
+              ? "cancelled by user — the user stopped this operation. Do not retry it unless they ask."
+              : err instanceof Error
+                ? err.message
+                : "boolean operation failed",
+          });
+        } finally {
+          run.done();
+          setGenerationProgress((prev) => {
+            const { [toolCall.toolCallId]: _, ...rest } = prev;
+            return rest;
+          });
+        }
       } else if (toolCall.toolName === "clear_all_layers") {
         const handle = sceneHandleRef.current;
         if (handle) {
           const count = handle.getLayerIds().length;
+          clearVariationPreviews();
           handle.clearLayers();
           activeLayersRef.current.clear();
           layerMetaRef.current.clear();
@@ -211,15 +724,100 @@ export function useChatManager(
       }
     },
   });
+  const { messages, setMessages, sendMessage, addToolOutput, status, stop } =
+    chat;
+
+  /**
+   * Current code of the layer a generate_3d_points call made, if it still
+   * exists and can be re-run.
+   */
+  const layerCodeForToolCall = useCallback(
+    (toolCallId: string): string | undefined => {
+      const id = toolCallLayersRef.current.get(toolCallId);
+      const layer =
+        id === undefined ? undefined : activeLayersRef.current.get(id);
+      return layer?.derived ? undefined : layer?.code;
+    },
+    [],
+  );
+
+  /**
+   * Re-run hand-edited code in place of the layer a generate_3d_points call
+   * made (same id, seed and params), and record the edit as a new message
+   * so the model sees it in the conversation. The call's own output stays
+   * as the model produced it.
+   */
+  const runEditedCode = useCallback(
+    async (toolCallId: string, code: string): Promise<void> => {
+      if (status === "submitted" || status === "streaming") {
+        throw new Error("wait for the response to finish before running");
+      }
+      const id = toolCallLayersRef.current.get(toolCallId);
+      if (id === undefined) {
+        throw new Error("this call did not create a layer");
+      }
+      const source = getActiveLayer(id);
+      let layer: GeneratedLayer;
+      try {
+        layer = await rerunLayer(source, source.seed, {
+          code,
+          onProgress: (progress) =>
+            setGenerationProgress((prev) => ({
+              ...prev,
+              [toolCallId]: progress,
+            })),
+        });
+      } finally {
+        setGenerationProgress((prev) => {
+          const { [toolCallId]: _, ...rest } = prev;
+          return rest;
+        });
+      }
+      const meta = replaceLayer(layer);
+      const note = [
+        `[the user edited the code of ${id} (from generate_3d_points call ${toolCallId}) by hand and re-ran it in place; the layer now comes from this code:]`,
+        code,
+        formatLayerOutput(layer, meta),
+      ].join("\n");
+      const metadata: UserEditMetadata = {
+        userEdit: { toolCallId, layerId: id },
+      };
+      setMessages((prev) => [
+        ...prev,
+        {
+          id: generateId(),
+          role: "user",
+          metadata,
+          parts: [{ type: "text", text: note }],
+        },
+      ]);
+    },
+    [
+      status,
+      getActiveLayer,
+      rerunLayer,
+      replaceLayer,
+      setMessages,
+      setGenerationProgress,
+    ],
+  );
 
   const handleSubmit = useCallback(
     async ({ text }: { text: string }) => {
       if (!text.trim()) return;
+      stoppedRef.current = false;
       sendMessage({ text });
     },
     [sendMessage],
   );
 
+  /** Stop the response stream and terminate any running generation. */
+  const handleStop = useCallback(() => {
+    stoppedRef.current = true;
+    for (const controller of runsRef.current) controller.abort();
+    stop();
+  }, [stop]);
+
   const flushPendingLayers = useCallback(
     (handle: SceneHandle) => {
       // First, flush any layers that arrived before the scene existed
@@ -233,12 +831,9 @@ export function useChatManager(
       }
       // Rebuild the layers atom from current state
       setLayers(
-        Array.from(activeLayersRef.current.entries()).map(([id, layer]) => ({
-          id,
-          description: layerMetaRef.current.get(id)?.description ?? "",
-          vertexCount: layer.meshVertexCount,
-          visible: true,
-        })),
+        Array.from(activeLayersRef.current.entries()).map(([id, layer]) =>
+          toLayerInfo(layer, layerMetaRef.current.get(id)?.description ?? ""),
+        ),
       );
     },
     [setLayers],
@@ -247,6 +842,7 @@ export function useChatManager(
   return {
     messages,
     sendMessage: handleSubmit,
+    stop: handleStop,
     status,
     addToolOutput,
     selectedModel,
@@ -254,6 +850,13 @@ export function useChatManager(
     modelSelectorOpen,
     setModelSelectorOpen,
     flushPendingLayers,
+    combineLayers,
+    rerollLayer,
+    setLayerParams,
+    layerCodeForToolCall,
+    runEditedCode,
+    showVariations,
+    pickVariation,
     // Expose these for the model selector UI
     parseModelKey,
     getAvailableModels,
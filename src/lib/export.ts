@@ -3,6 +3,12 @@ import { GLTFExporter } from "three/addons/exporters/GLTFExporter.js";
 
 /**
  * Export the current Three.js scene as a binary glTF (.glb) file.
+ * Layer geometry is indexed, so the GLB reuses the same welded vertex
+ * buffers and index accessors as the viewport. Instanced layers are written
+ * once per prototype with EXT_mesh_gpu_instancing (GLTFExporter handles
+ * InstancedMesh natively). Physical material props round-trip through
+ * KHR_materials_emissive_strength, _transmission, _volume, _ior, _clearcoat
+ * and _sheen, which the exporter writes for MeshPhysicalMaterial.
  * Triggers a download in the user's browser.
  */
 export async function exportSceneAsGLB(
@@ -11,11 +17,15 @@ export async function exportSceneAsGLB(
 ): Promise<void> {
   const exporter = new GLTFExporter();
 
-  // Temporarily hide ground plane(s) so they aren't included in the GLB.
-  // We use the onlyVisible flag below, so setting visible=false excludes them.
+  // Temporarily hide ground plane(s) and variation previews so they aren't
+  // included in the GLB. We use the onlyVisible flag below, so setting
+  // visible=false excludes them.
   const hiddenMeshes: THREE.Object3D[] = [];
   scene.traverse((child) => {
-    if (child.userData.isGroundPlane && child.visible) {
+    if (
+      (child.userData.isGroundPlane || child.userData.isPreview) &&
+      child.visible
+    ) {
       child.visible = false;
       hiddenMeshes.push(child);
     }
@@ -27,7 +37,7 @@ export async function exportSceneAsGLB(
     onlyVisible: true,
   });
 
-  // Restore visibility of ground planes after export
+  // Restore visibility of ground planes and previews after export
   for (const mesh of hiddenMeshes) {
     mesh.visible = true;
   }
@@ -0,0 +1,126 @@
+import {
+  computeLayerBounds,
+  type ExecutionOptions,
+  executeProceduralCode,
+  type GeneratedLayer,
+  type LayerMeta,
+  lazyLayerGeometry,
+  type SceneBounds,
+} from "@/lib/procedural/engine";
+
+export type BooleanOperation = "subtract" | "union" | "intersect";
+
+export const BOOLEAN_OPERATIONS: BooleanOperation[] = [
+  "subtract",
+  "union",
+  "intersect",
+];
+
+const SDF_OPERATORS: Record<BooleanOperation, string> = {
+  subtract: "opSubtract",
+  union: "opUnion",
+  intersect: "opIntersect",
+};
+
+/** Grid cells along each axis of the re-meshed box. */
+const DEFAULT_RESOLUTION = 128;
+
+export interface BooleanOptions extends ExecutionOptions {
+  resolution?: number;
+}
+
+type Box = { min: number[]; max: number[] };
+
+/** Box the result can occupy, or null when it is empty. */
+function resultBox(
+  operation: BooleanOperation,
+  a: LayerMeta["bounds"],
+  b: LayerMeta["bounds"],
+): Box | null {
+  const overlap: Box = {
+    min: a.min.map((v, i) => Math.max(v, b.min[i])),
+    max: a.max.map((v, i) => Math.min(v, b.max[i])),
+  };
+  const overlaps = overlap.min.every((v, i) => v <= overlap.max[i]);
+  switch (operation) {
+    case "union":
+      return {
+        min: a.min.map((v, i) => Math.min(v, b.min[i])),
+        max: a.max.map((v, i) => Math.max(v, b.max[i])),
+      };
+    case "intersect":
+      return overlaps ? overlap : null;
+    case "subtract":
+      return overlaps ? { min: [...a.min], max: [...a.max] } : null;
+  }
+}
+
+/**
+ * Combine layer B into layer A and return the new A, keeping its id. Both
+ * layers are turned into signed distance fields by the sandbox's
+ * LAYERS[id].sdf (exact distance to their triangles, inside by ray parity)
+ * and the combined field is re-meshed with dual contouring, which keeps the
+ * cut edges sharp. Any pair of meshes works, closed or not, at the cost of
+ * detail finer than one grid cell.
+ *
+ * The result takes A's material and A's vertex colors (the nearer layer's
+ * for a union). Material parts, instancing and baked textures do not
+ * survive: everything becomes one mesh. The result is marked derived, as
+ * its code reads the source layers and cannot rebuild it on its own.
+ */
+export async function booleanLayers(
+  a: GeneratedLayer,
+  b: GeneratedLayer,
+  operation: BooleanOperation,
+  sceneBounds: SceneBounds,
+  options: BooleanOptions = {},
+): Promise<GeneratedLayer> {
+  const metaA: LayerMeta = {
+    ...computeLayerBounds(a),
+    description: "",
+    geometry: lazyLayerGeometry(a),
+  };
+  const metaB: LayerMeta = {
+    ...computeLayerBounds(b),
+    description: "",
+    geometry: lazyLayerGeometry(b),
+  };
+  const box = resultBox(operation, metaA.bounds, metaB.bounds);
+  if (!box) {
+    throw new Error(
+      `${operation}: ${b.id} does not overlap ${a.id}, so there is nothing to ${operation === "subtract" ? "cut away" : "keep"}`,
+    );
+  }
+
+  // Pad by two cells so the surface never touches the edge of the grid
+  const resolution = Math.round(options.resolution ?? DEFAULT_RESOLUTION);
+  const size = box.max.map((v, i) => v - box.min[i]);
+  const pad = (Math.max(...size) * 2) / resolution;
+  const bMin = box.min.map((v) => v - pad);
+  const bMax = box.max.map((v) => v + pad);
+
+  const A = `LAYERS[${JSON.stringify(a.id)}]`;
+  const B = `LAYERS[${JSON.stringify(b.id)}]`;
+  const color =
+    operation === "union"
+      ? `Math.abs(${A}.sdf(x, y, z)) <= Math.abs(${B}.sdf(x, y, z)) ? ${A}.colorAt(x, y, z) : ${B}.colorAt(x, y, z)`
+      : `${A}.colorAt(x, y, z)`;
+  const code = [
+    a.materialProps ? `setMaterial(${JSON.stringify(a.materialProps)});` : "",
+    "sdfMesh(",
+    `  function(x, y, z) { return ${SDF_OPERATORS[operation]}(${A}.sdf(x, y, z), ${B}.sdf(x, y, z)); },`,
+    `  function(x, y, z) { return ${color}; },`,
+    `  ${JSON.stringify(bMin)}, ${JSON.stringify(bMax)}, ${resolution},`,
+    '  { mesher: "dualContouring" }',
+    ");",
+  ].join("\n");
+
+  const layer = await executeProceduralCode(
+    code,
+    sceneBounds,
+    undefined,
+    [metaA, metaB],
+    options,
+  );
+  return { ...layer, id: a.id, derived: true };
+}
@@ -8,16 +8,136 @@ export interface MaterialProps {
   roughness?: number;
   metalness?: number;
   opacity?: number;
+  /** Glow color, 0–1 RGB like vertex colors. */
+  emissive?: [number, number, number];
+  /** Glow multiplier (default 1); above 1 feeds the bloom pass. */
+  emissiveIntensity?: number;
+  // The rest need MeshPhysicalMaterial
+  /** 0–1 fraction of light passing through (glass, water). */
+  transmission?: number;
+  /** Index of refraction, default 1.5. */
+  ior?: number;
+  /** Thickness of the transmissive volume in world units. */
+  thickness?: number;
+  /** 0–1 strength of a lacquer layer over the base material. */
+  clearcoat?: number;
+  clearcoatRoughness?: number;
+  /** 0–1 strength of a soft fabric sheen (velvet, felt). */
+  sheen?: number;
+  /** Sheen tint, default white. */
+  sheenColor?: [number, number, number];
 }
 
-export interface GeneratedLayer {
-  id: string;
+export interface GenerationStats {
+  /** Total sdfFn calls made by sdfMesh (grid samples, pruning probes, normals). */
+  sdfEvaluations: number;
+  /** Grid points a dense sdfMesh evaluation would have sampled. */
+  sdfGridPoints: number;
+}
+
+export interface GenerationProgress {
+  /** Generator currently running, e.g. "sdfMesh" or "grid". */
+  call: string;
+  /**
+   * Progress of the current sdfMesh call (0 for other generators): each slab
+   * counts its grid slices twice, once while evaluating the SDF and once
+   * while meshing.
+   */
+  slice: number;
+  slices: number;
+  /** Vertices emitted so far. */
+  meshVertexCount: number;
+}
+
+export interface MeshBuffers {
+  /** Welded vertex attributes, 3 floats per unique vertex. */
   meshPositions: Float32Array;
   meshColors: Float32Array;
+  meshNormals: Float32Array;
+  /** Triangle list indexing into the vertex attributes, 3 entries per triangle. */
+  meshIndices: Uint32Array;
+  /** Number of unique (welded) vertices. */
   meshVertexCount: number;
-  meshNormals?: Float32Array;
+}
+
+/** A named material region of a layer's mesh, from beginPart/endPart. */
+export interface MaterialGroup {
+  name: string;
+  materialProps: MaterialProps;
+  /** Range of meshIndices drawn with this material. */
+  start: number;
+  count: number;
+}
+
+/** A prototype mesh (from defineInstance) drawn once per instance matrix. */
+export interface InstancedPart extends MeshBuffers {
+  /** Column-major 4x4 world matrices, 16 floats per instance. */
+  instanceMatrices: Float32Array;
+  instanceCount: number;
+  /** Index into the layer's groups whose material it uses; absent for the layer material. */
+  group?: number;
+  /** True when the prototype has smooth normals; the layer's own flag ignores prototypes. */
+  hasCustomNormals?: boolean;
+}
+
+/** Colors baked by setTextureResolution: square RGBA8 image, sRGB encoded. */
+export interface BakedTexture {
+  size: number;
+  data: Uint8Array;
+}
+
+/** A terrain surface from the sandbox's Heightmap, meshed by grid(). */
+export interface HeightmapData {
+  x0: number;
+  z0: number;
+  x1: number;
+  z1: number;
+  resX: number;
+  resZ: number;
+  /** (resX + 1) * (resZ + 1) heights, row by row along z. */
+  data: Float32Array;
+}
+
+export interface GeneratedLayer extends MeshBuffers {
+  id: string;
+  /** The sandbox code that built the layer. */
+  code: string;
+  /** PRNG and noise seed the code ran with; the same code and seed rebuild the same mesh. */
+  seed: number;
+  /** Adjustable values the code reads as PARAMS, and the ones it ran with. */
+  params?: LayerParam[];
+  paramValues?: ParamValues;
+  /**
+   * Set on boolean results: the mesh was cut from other layers' triangles,
+   * so running its code again cannot rebuild it.
+   */
+  derived?: boolean;
+  /** Atlas coordinates into bakedTexture, 2 floats per vertex. */
+  meshUVs?: Float32Array;
+  /** Replaces the vertex colors when present. */
+  bakedTexture?: BakedTexture;
+  /**
+   * Named material parts. Triangles before the first group's start use the
+   * layer's own materialProps.
+   */
+  groups?: MaterialGroup[];
+  /** Instanced prototypes placed by the code, rendered as InstancedMesh. */
+  instances?: InstancedPart[];
+  /** Last Heightmap the code passed to grid(), for later layers to sample. */
+  heightmap?: HeightmapData;
+  /** True when the layer has smooth normals (sdfMesh, grid) rather than only face normals. */
   hasCustomNormals?: boolean;
   materialProps?: MaterialProps;
+  /** Evaluation counters; present when the layer used sdfMesh. */
+  stats?: GenerationStats;
+}
+
+/** World-space triangles of a layer, for LAYERS[id] surface queries. */
+export interface LayerGeometry {
+  positions: Float32Array;
+  /** Vertex colors, 3 floats per vertex; read by LAYERS[id].colorAt. */
+  colors: Float32Array;
+  indices: Uint32Array;
 }
 
 export interface LayerMeta {
@@ -29,9 +149,121 @@ export interface LayerMeta {
     center: [number, number, number];
   };
   meshVertexCount: number;
+  seed: number;
+  /** Current PARAMS of a parametric layer, reported back to the model. */
+  paramValues?: ParamValues;
+  /** Rebuilt as LAYERS[id].heightmap in the sandbox; stays on the client. */
+  heightmap?: HeightmapData;
+  /**
+   * Backs LAYERS[id].raycast / heightAt / closestPoint / sdf; stays on the
+   * client and is only built for code that queries this layer.
+   */
+  geometry?: () => LayerGeometry;
+}
+
+/** Vertices stored for a layer: its own mesh plus each prototype once. */
+export function countLayerVertices(layer: GeneratedLayer): number {
+  let count = layer.meshVertexCount;
+  for (const part of layer.instances ?? []) count += part.meshVertexCount;
+  return count;
+}
+
+/** Most vertices layerGeometry expands an instanced layer into. */
+const MAX_QUERY_VERTICES = 2000000;
+
+/**
+ * The layer's mesh plus a world-space copy of every instance, as one
+ * triangle list. Throws when the instances would expand past
+ * MAX_QUERY_VERTICES.
+ */
+export function layerGeometry(layer: GeneratedLayer): LayerGeometry {
+  if (!layer.instances) {
+    return {
+      positions: layer.meshPositions,
+      colors: layer.meshColors,
+      indices: layer.meshIndices,
+    };
+  }
+  let vertexTotal = layer.meshVertexCount;
+  let indexTotal = layer.meshIndices.length;
+  for (const part of layer.instances) {
+    vertexTotal += part.meshVertexCount * part.instanceCount;
+    indexTotal += part.meshIndices.length * part.instanceCount;
+  }
+  if (vertexTotal > MAX_QUERY_VERTICES) {
+    throw new Error(
+      `${layer.id} is too large to query: its instances expand to ${vertexTotal.toLocaleString()} vertices (limit ${MAX_QUERY_VERTICES.toLocaleString()}). Query a layer without instancing, such as the ground below it`,
+    );
+  }
+  const positions = new Float32Array(vertexTotal * 3);
+  const colors = new Float32Array(vertexTotal * 3);
+  const indices = new Uint32Array(indexTotal);
+  positions.set(layer.meshPositions.subarray(0, layer.meshVertexCount * 3));
+  colors.set(layer.meshColors.subarray(0, layer.meshVertexCount * 3));
+  indices.set(layer.meshIndices);
+  let vertexCount = layer.meshVertexCount;
+  let indexCount = layer.meshIndices.length;
+  for (const part of layer.instances) {
+    const p = part.meshPositions;
+    const m = part.instanceMatrices;
+    const partColors = part.meshColors.subarray(0, part.meshVertexCount * 3);
+    for (let k = 0; k < part.instanceCount; k++) {
+      const o = k * 16;
+      colors.set(partColors, vertexCount * 3);
+      for (let i = 0; i < part.meshVertexCount; i++) {
+        const x = p[i * 3];
+        const y = p[i * 3 + 1];
+        const z = p[i * 3 + 2];
+        const v = (vertexCount + i) * 3;
+        positions[v] = m[o] * x + m[o + 4] * y + m[o + 8] * z + m[o + 12];
+        positions[v + 1] =
+          m[o + 1] * x + m[o + 5] * y + m[o + 9] * z + m[o + 13];
+        positions[v + 2] =
+          m[o + 2] * x + m[o + 6] * y + m[o + 10] * z + m[o + 14];
+      }
+      for (const index of part.meshIndices) {
+        indices[indexCount++] = vertexCount + index;
+      }
+      vertexCount += part.meshVertexCount;
+    }
+  }
+  return { positions, colors, indices };
+}
+
+/** layerGeometry, built on the first call and reused after that. */
+export function lazyLayerGeometry(layer: GeneratedLayer): () => LayerGeometry {
+  let geometry: LayerGeometry | undefined;
+  return () => {
+    geometry ??= layerGeometry(layer);
+    return geometry;
+  };
+}
+
+/** Copy of a layer under a new id, moved by offset (a preview beside the original). */
+export function translateLayer(
+  layer: GeneratedLayer,
+  id: string,
+  offset: [number, number, number],
+): GeneratedLayer {
+  const meshPositions = layer.meshPositions.slice();
+  for (let i = 0; i < layer.meshVertexCount * 3; i += 3) {
+    meshPositions[i] += offset[0];
+    meshPositions[i + 1] += offset[1];
+    meshPositions[i + 2] += offset[2];
+  }
+  const instances = layer.instances?.map((part) => {
+    const instanceMatrices = part.instanceMatrices.slice();
+    for (let o = 0; o < part.instanceCount * 16; o += 16) {
+      instanceMatrices[o + 12] += offset[0];
+      instanceMatrices[o + 13] += offset[1];
+      instanceMatrices[o + 14] += offset[2];
+    }
+    return { ...part, instanceMatrices };
+  });
+  return { ...layer, id, meshPositions, instances };
 }
 
-/** Compute bounding box from a generated layer's mesh positions. */
+/** Compute bounding box from a generated layer's mesh positions and instances. */
 export function computeLayerBounds(
   layer: GeneratedLayer,
 ): Omit<LayerMeta, "description"> {
@@ -41,18 +273,41 @@ export function computeLayerBounds(
   let maxX = -Infinity;
   let maxY = -Infinity;
   let maxZ = -Infinity;
-
-  const mc = layer.meshVertexCount;
-  for (let i = 0; i < mc; i++) {
-    const x = layer.meshPositions[i * 3];
-    const y = layer.meshPositions[i * 3 + 1];
-    const z = layer.meshPositions[i * 3 + 2];
+  const include = (x: number, y: number, z: number) => {
     if (x < minX) minX = x;
     if (x > maxX) maxX = x;
     if (y < minY) minY = y;
     if (y > maxY) maxY = y;
     if (z < minZ) minZ = z;
     if (z > maxZ) maxZ = z;
+  };
+
+  const mc = layer.meshVertexCount;
+  for (let i = 0; i < mc; i++) {
+    include(
+      layer.meshPositions[i * 3],
+      layer.meshPositions[i * 3 + 1],
+      layer.meshPositions[i * 3 + 2],
+    );
+  }
+
+  // Instances: transform the corners of each prototype's box
+  for (const part of layer.instances ?? []) {
+    const box = meshBox(part);
+    const m = part.instanceMatrices;
+    for (let k = 0; k < part.instanceCount; k++) {
+      const o = k * 16;
+      for (let c = 0; c < 8; c++) {
+        const x = c & 1 ? box[3] : box[0];
+        const y = c & 2 ? box[4] : box[1];
+        const z = c & 4 ? box[5] : box[2];
+        include(
+          m[o] * x + m[o + 4] * y + m[o + 8] * z + m[o + 12],
+          m[o + 1] * x + m[o + 5] * y + m[o + 9] * z + m[o + 13],
+          m[o + 2] * x + m[o + 6] * y + m[o + 10] * z + m[o + 14],
+        );
+      }
+    }
   }
 
   // If no geometry was produced, return zeroed bounds instead of Infinity/NaN
@@ -66,10 +321,25 @@ export function computeLayerBounds(
         ? [0, 0, 0]
         : [(minX + maxX) / 2, (minY + maxY) / 2, (minZ + maxZ) / 2],
     },
-    meshVertexCount: mc,
+    meshVertexCount: countLayerVertices(layer),
+    seed: layer.seed,
+    paramValues: layer.paramValues,
   };
 }
 
+/** Axis-aligned box of a mesh as [minX, minY, minZ, maxX, maxY, maxZ]. */
+function meshBox(mesh: MeshBuffers): number[] {
+  const box = [Infinity, Infinity, Infinity, -Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < mesh.meshVertexCount * 3; i += 3) {
+    for (let a = 0; a < 3; a++) {
+      const v = mesh.meshPositions[i + a];
+      if (v < box[a]) box[a] = v;
+      if (v > box[a + 3]) box[a + 3] = v;
+    }
+  }
+  return box;
+}
+
 const WORKER_SOURCE = `
 // --- Seeded PRNG (mulberry32) ---
 let _seed = 42;
@@ -81,6 +351,18 @@ function _mulberry32() {
   return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
 }
 
+// Independent mulberry32 stream for generators that take a seed option.
+// The caller's random() sequence only advances when no seed is given.
+function _seededRandom(seed) {
+  var s = (seed === undefined ? Math.floor(_mulberry32() * 4294967296) : seed) | 0;
+  return function() {
+    s = (s + 0x6d2b79f5) | 0;
+    var t = Math.imul(s ^ (s >>> 15), 1 | s);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
 // --- Simple value noise ---
 function _hash2(ix, iy) {
   let h = ix * 374761393 + iy * 668265263 + _seed;
@@ -143,6 +425,304 @@ function fbm3D(x, y, z, octaves, lacunarity, gain) {
   return sum / norm;
 }
 
+// --- Gradient noise (Perlin, simplex) ---
+// Seeded from the layer seed once per run, so unlike noise2D/noise3D these
+// do not shift when random() is called. All return roughly [-1, 1]; the
+// *Deriv variants return [value, d/dx, d/dy(, d/dz)] with exact derivatives.
+var _perm = new Uint8Array(512);
+var _GRAD3 = [
+  1,1,0, -1,1,0, 1,-1,0, -1,-1,0,
+  1,0,1, -1,0,1, 1,0,-1, -1,0,-1,
+  0,1,1, 0,-1,1, 0,1,-1, 0,-1,-1
+];
+var _noiseOut = [0, 0, 0, 0];
+
+// Shuffle the permutation table with its own PRNG, leaving random() alone
+function _seedGradientNoise(seed) {
+  var s = seed | 0;
+  var next = function() {
+    s = (s + 0x6d2b79f5) | 0;
+    var t = Math.imul(s ^ (s >>> 15), 1 | s);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  var p = [];
+  for (var i = 0; i < 256; i++) p[i] = i;
+  for (var i = 255; i > 0; i--) {
+    var j = Math.floor(next() * (i + 1));
+    var tmp = p[i]; p[i] = p[j]; p[j] = tmp;
+  }
+  for (var i = 0; i < 512; i++) _perm[i] = p[i & 255];
+}
+
+function _gradIndex2(ix, iy) {
+  return (_perm[(ix & 255) + _perm[iy & 255]] % 12) * 3;
+}
+function _gradIndex3(ix, iy, iz) {
+  return (_perm[(ix & 255) + _perm[(iy & 255) + _perm[iz & 255]]] % 12) * 3;
+}
+
+// Perlin noise with quintic fade; writes value and gradient to _noiseOut
+function _perlin2(x, y) {
+  var ix = Math.floor(x), iy = Math.floor(y);
+  var fx = x - ix, fy = y - iy;
+  var ux = fx*fx*fx*(fx*(fx*6 - 15) + 10), uy = fy*fy*fy*(fy*(fy*6 - 15) + 10);
+  var dux = 30*fx*fx*(fx*(fx - 2) + 1), duy = 30*fy*fy*(fy*(fy - 2) + 1);
+  var ga = _gradIndex2(ix, iy), gb = _gradIndex2(ix + 1, iy);
+  var gc = _gradIndex2(ix, iy + 1), gd = _gradIndex2(ix + 1, iy + 1);
+  var G = _GRAD3;
+  var va = G[ga]*fx + G[ga+1]*fy;
+  var vb = G[gb]*(fx - 1) + G[gb+1]*fy;
+  var vc = G[gc]*fx + G[gc+1]*(fy - 1);
+  var vd = G[gd]*(fx - 1) + G[gd+1]*(fy - 1);
+  var k = va - vb - vc + vd;
+  _noiseOut[0] = va + ux*(vb - va) + uy*(vc - va) + ux*uy*k;
+  _noiseOut[1] = G[ga] + ux*(G[gb] - G[ga]) + uy*(G[gc] - G[ga]) +
+    ux*uy*(G[ga] - G[gb] - G[gc] + G[gd]) + dux*(uy*k + vb - va);
+  _noiseOut[2] = G[ga+1] + ux*(G[gb+1] - G[ga+1]) + uy*(G[gc+1] - G[ga+1]) +
+    ux*uy*(G[ga+1] - G[gb+1] - G[gc+1] + G[gd+1]) + duy*(ux*k + vc - va);
+}
+
+function _perlin3(x, y, z) {
+  var ix = Math.floor(x), iy = Math.floor(y), iz = Math.floor(z);
+  var fx = x - ix, fy = y - iy, fz = z - iz;
+  var ux = fx*fx*fx*(fx*(fx*6 - 15) + 10);
+  var uy = fy*fy*fy*(fy*(fy*6 - 15) + 10);
+  var uz = fz*fz*fz*(fz*(fz*6 - 15) + 10);
+  var dux = 30*fx*fx*(fx*(fx - 2) + 1);
+  var duy = 30*fy*fy*(fy*(fy - 2) + 1);
+  var duz = 30*fz*fz*(fz*(fz - 2) + 1);
+  var G = _GRAD3;
+  // Corners a..h: (0,0,0) (1,0,0) (0,1,0) (1,1,0) (0,0,1) (1,0,1) (0,1,1) (1,1,1)
+  var g = [
+    _gradIndex3(ix, iy, iz), _gradIndex3(ix + 1, iy, iz),
+    _gradIndex3(ix, iy + 1, iz), _gradIndex3(ix + 1, iy + 1, iz),
+    _gradIndex3(ix, iy, iz + 1), _gradIndex3(ix + 1, iy, iz + 1),
+    _gradIndex3(ix, iy + 1, iz + 1), _gradIndex3(ix + 1, iy + 1, iz + 1)
+  ];
+  var v = [];
+  for (var c = 0; c < 8; c++) {
+    var gi = g[c];
+    v[c] = G[gi]*(fx - (c & 1)) + G[gi+1]*(fy - ((c >> 1) & 1)) + G[gi+2]*(fz - ((c >> 2) & 1));
+  }
+  var k0 = v[1] - v[0], k1 = v[2] - v[0], k2 = v[4] - v[0];
+  var k3 = v[0] - v[1] - v[2] + v[3], k4 = v[0] - v[2] - v[4] + v[6];
+  var k5 = v[0] - v[1] - v[4] + v[5];
+  var k6 = -v[0] + v[1] + v[2] - v[3] + v[4] - v[5] - v[6] + v[7];
+  _noiseOut[0] = v[0] + ux*k0 + uy*k1 + uz*k2 + ux*uy*k3 + uy*uz*k4 + uz*ux*k5 + ux*uy*uz*k6;
+  // Gradient: interpolated corner gradients plus the fade-curve terms
+  for (var axis = 0; axis < 3; axis++) {
+    var ga = G[g[0]+axis], gb = G[g[1]+axis], gc = G[g[2]+axis], gd = G[g[3]+axis];
+    var ge = G[g[4]+axis], gf = G[g[5]+axis], gg = G[g[6]+axis], gh = G[g[7]+axis];
+    var d = ga + ux*(gb - ga) + uy*(gc - ga) + uz*(ge - ga) +
+      ux*uy*(ga - gb - gc + gd) + uy*uz*(ga - gc - ge + gg) +
+      uz*ux*(ga - gb - ge + gf) + ux*uy*uz*(-ga + gb + gc - gd + ge - gf - gg + gh);
+    if (axis === 0) d += dux*(k0 + uy*k3 + uz*k5 + uy*uz*k6);
+    else if (axis === 1) d += duy*(k1 + uz*k4 + ux*k3 + uz*ux*k6);
+    else d += duz*(k2 + ux*k5 + uy*k4 + ux*uy*k6);
+    _noiseOut[axis + 1] = d;
+  }
+}
+
+var _F2 = 0.5 * (Math.sqrt(3) - 1), _G2 = (3 - Math.sqrt(3)) / 6;
+
+// 2D simplex noise (Gustavson); writes value and gradient to _noiseOut
+function _simplex2(x, y) {
+  var s = (x + y) * _F2;
+  var i = Math.floor(x + s), j = Math.floor(y + s);
+  var t = (i + j) * _G2;
+  var x0 = x - (i - t), y0 = y - (j - t);
+  var i1 = x0 > y0 ? 1 : 0, j1 = 1 - i1;
+  var n = 0, dx = 0, dy = 0;
+  for (var c = 0; c < 3; c++) {
+    var ox = c === 0 ? 0 : c === 1 ? i1 : 1;
+    var oy = c === 0 ? 0 : c === 1 ? j1 : 1;
+    var cx = x0 - ox + (ox + oy) * _G2, cy = y0 - oy + (ox + oy) * _G2;
+    var f = 0.5 - cx*cx - cy*cy;
+    if (f <= 0) continue;
+    var gi = _gradIndex2(i + ox, j + oy);
+    var gx = _GRAD3[gi], gy = _GRAD3[gi+1];
+    var dot = gx*cx + gy*cy, f2 = f*f, f4 = f2*f2;
+    n += f4 * dot;
+    dx += f4*gx - 8*f2*f*cx*dot;
+    dy += f4*gy - 8*f2*f*cy*dot;
+  }
+  _noiseOut[0] = 70 * n; _noiseOut[1] = 70 * dx; _noiseOut[2] = 70 * dy;
+}
+
+// 3D simplex noise (Gustavson). The kernel radius is 0.5 rather than the
+// usual 0.6, which leaks across simplex edges and breaks the derivatives.
+// Writes value and gradient to _noiseOut.
+function _simplex3(x, y, z) {
+  var s = (x + y + z) / 3;
+  var i = Math.floor(x + s), j = Math.floor(y + s), k = Math.floor(z + s);
+  var t = (i + j + k) / 6;
+  var x0 = x - (i - t), y0 = y - (j - t), z0 = z - (k - t);
+  // Second and third corners of the simplex, by ranking x0, y0, z0
+  var i1, j1, k1, i2, j2, k2;
+  if (x0 >= y0) {
+    if (y0 >= z0) { i1=1; j1=0; k1=0; i2=1; j2=1; k2=0; }
+    else if (x0 >= z0) { i1=1; j1=0; k1=0; i2=1; j2=0; k2=1; }
+    else { i1=0; j1=0; k1=1; i2=1; j2=0; k2=1; }
+  } else {
+    if (y0 < z0) { i1=0; j1=0; k1=1; i2=0; j2=1; k2=1; }
+    else if (x0 < z0) { i1=0; j1=1; k1=0; i2=0; j2=1; k2=1; }
+    else { i1=0; j1=1; k1=0; i2=1; j2=1; k2=0; }
+  }
+  var offsets = [0,0,0, i1,j1,k1, i2,j2,k2, 1,1,1];
+  var n = 0, dx = 0, dy = 0, dz = 0;
+  for (var c = 0; c < 4; c++) {
+    var ox = offsets[c*3], oy = offsets[c*3+1], oz = offsets[c*3+2];
+    var g3 = c / 6;
+    var cx = x0 - ox + g3, cy = y0 - oy + g3, cz = z0 - oz + g3;
+    var f = 0.5 - cx*cx - cy*cy - cz*cz;
+    if (f <= 0) continue;
+    var gi = _gradIndex3(i + ox, j + oy, k + oz);
+    var gx = _GRAD3[gi], gy = _GRAD3[gi+1], gz = _GRAD3[gi+2];
+    var dot = gx*cx + gy*cy + gz*cz, f2 = f*f, f4 = f2*f2;
+    n += f4 * dot;
+    dx += f4*gx - 8*f2*f*cx*dot;
+    dy += f4*gy - 8*f2*f*cy*dot;
+    dz += f4*gz - 8*f2*f*cz*dot;
+  }
+  _noiseOut[0] = 76 * n; _noiseOut[1] = 76 * dx;
+  _noiseOut[2] = 76 * dy; _noiseOut[3] = 76 * dz;
+}
+
+function perlin2D(x, y) { _perlin2(x, y); return _noiseOut[0]; }
+function perlin3D(x, y, z) { _perlin3(x, y, z); return _noiseOut[0]; }
+function simplex2D(x, y) { _simplex2(x, y); return _noiseOut[0]; }
+function simplex3D(x, y, z) { _simplex3(x, y, z); return _noiseOut[0]; }
+
+function perlin2DDeriv(x, y) {
+  _perlin2(x, y);
+  return [_noiseOut[0], _noiseOut[1], _noiseOut[2]];
+}
+function perlin3DDeriv(x, y, z) {
+  _perlin3(x, y, z);
+  return [_noiseOut[0], _noiseOut[1], _noiseOut[2], _noiseOut[3]];
+}
+function simplex2DDeriv(x, y) {
+  _simplex2(x, y);
+  return [_noiseOut[0], _noiseOut[1], _noiseOut[2]];
+}
+function simplex3DDeriv(x, y, z) {
+  _simplex3(x, y, z);
+  return [_noiseOut[0], _noiseOut[1], _noiseOut[2], _noiseOut[3]];
+}
+
+// Ridged multifractal: sharp crests where the noise crosses zero, each
+// octave weighted by the one before so detail gathers on the ridges. [0, 1]
+function ridged2D(x, y, octaves, lacunarity, gain) {
+  octaves = octaves || 5;
+  lacunarity = lacunarity || 2.0;
+  gain = gain || 0.5;
+  var amp = 1.0, freq = 1.0, sum = 0.0, norm = 0.0, weight = 1.0;
+  for (var i = 0; i < octaves; i++) {
+    var n = 1 - Math.abs(simplex2D(x * freq, y * freq));
+    n *= n;
+    sum += amp * n * weight;
+    norm += amp;
+    weight = n;
+    amp *= gain;
+    freq *= lacunarity;
+  }
+  return sum / norm;
+}
+
+function ridged3D(x, y, z, octaves, lacunarity, gain) {
+  octaves = octaves || 5;
+  lacunarity = lacunarity || 2.0;
+  gain = gain || 0.5;
+  var amp = 1.0, freq = 1.0, sum = 0.0, norm = 0.0, weight = 1.0;
+  for (var i = 0; i < octaves; i++) {
+    var n = 1 - Math.abs(simplex3D(x * freq, y * freq, z * freq));
+    n *= n;
+    sum += amp * n * weight;
+    norm += amp;
+    weight = n;
+    amp *= gain;
+    freq *= lacunarity;
+  }
+  return sum / norm;
+}
+
+// Billow: fbm of |noise|, rounded puffy lumps (clouds, rolling hills). [0, 1]
+function billow2D(x, y, octaves, lacunarity, gain) {
+  octaves = octaves || 4;
+  lacunarity = lacunarity || 2.0;
+  gain = gain || 0.5;
+  var amp = 1.0, freq = 1.0, sum = 0.0, norm = 0.0;
+  for (var i = 0; i < octaves; i++) {
+    sum += amp * Math.abs(simplex2D(x * freq, y * freq));
+    norm += amp;
+    amp *= gain;
+    freq *= lacunarity;
+  }
+  return sum / norm;
+}
+
+function billow3D(x, y, z, octaves, lacunarity, gain) {
+  octaves = octaves || 4;
+  lacunarity = lacunarity || 2.0;
+  gain = gain || 0.5;
+  var amp = 1.0, freq = 1.0, sum = 0.0, norm = 0.0;
+  for (var i = 0; i < octaves; i++) {
+    sum += amp * Math.abs(simplex3D(x * freq, y * freq, z * freq));
+    norm += amp;
+    amp *= gain;
+    freq *= lacunarity;
+  }
+  return sum / norm;
+}
+
+// Simplex fbm used as the warp offset field
+function _warpFbm2(x, y, octaves) {
+  var amp = 1.0, sum = 0.0, norm = 0.0;
+  for (var i = 0; i < octaves; i++) {
+    sum += amp * simplex2D(x, y);
+    norm += amp;
+    amp *= 0.5; x *= 2; y *= 2;
+  }
+  return sum / norm;
+}
+function _warpFbm3(x, y, z, octaves) {
+  var amp = 1.0, sum = 0.0, norm = 0.0;
+  for (var i = 0; i < octaves; i++) {
+    sum += amp * simplex3D(x, y, z);
+    norm += amp;
+    amp *= 0.5; x *= 2; y *= 2; z *= 2;
+  }
+  return sum / norm;
+}
+
+// Domain warping: offset the input point by a noise field before sampling
+// another function there. Returns the warped [x, y] / [x, y, z]; the point
+// moves by up to about strength units.
+function domainWarp2D(x, y, strength, frequency, octaves) {
+  strength = strength === undefined ? 1 : strength;
+  frequency = frequency || 1;
+  octaves = octaves || 3;
+  var fx = x * frequency, fy = y * frequency;
+  // Decorrelated offsets for each axis
+  return [
+    x + strength * _warpFbm2(fx, fy, octaves),
+    y + strength * _warpFbm2(fx + 5.2, fy + 1.3, octaves)
+  ];
+}
+
+function domainWarp3D(x, y, z, strength, frequency, octaves) {
+  strength = strength === undefined ? 1 : strength;
+  frequency = frequency || 1;
+  octaves = octaves || 3;
+  var fx = x * frequency, fy = y * frequency, fz = z * frequency;
+  return [
+    x + strength * _warpFbm3(fx, fy, fz, octaves),
+    y + strength * _warpFbm3(fx + 5.2, fy + 1.3, fz + 2.8, octaves),
+    z + strength * _warpFbm3(fx + 9.7, fy + 4.1, fz + 7.3, octaves)
+  ];
+}
+
 // Worley/Cellular noise — returns [F1, F2] (nearest and second-nearest cell distances)
 // Used for organic textures like stone, scales, cell membranes, etc.
 function worley2D(x, y) {
@@ -185,20 +765,283 @@ function worley3D(x, y, z) {
 }
 
 // --- Material properties ---
-// Allows user code to override PBR material settings (roughness, metalness, opacity)
+// Allows user code to override PBR material settings (roughness, metalness,
+// opacity, emissive glow and the physical extras) for the whole layer, or for
+// the open part
+var MATERIAL_NUMBER_KEYS = [
+  "roughness", "metalness", "opacity", "emissiveIntensity", "transmission",
+  "ior", "thickness", "clearcoat", "clearcoatRoughness", "sheen"
+];
+var MATERIAL_COLOR_KEYS = ["emissive", "sheenColor"];
 var _materialProps = {};
 function setMaterial(props) {
-  if (props.roughness !== undefined) _materialProps.roughness = props.roughness;
-  if (props.metalness !== undefined) _materialProps.metalness = props.metalness;
-  if (props.opacity !== undefined) _materialProps.opacity = props.opacity;
+  var target = _currentPart >= 0 ? _parts[_currentPart].materialProps : _materialProps;
+  for (var i = 0; i < MATERIAL_NUMBER_KEYS.length; i++) {
+    var key = MATERIAL_NUMBER_KEYS[i];
+    if (props[key] !== undefined) target[key] = props[key];
+  }
+  for (var i = 0; i < MATERIAL_COLOR_KEYS.length; i++) {
+    var key = MATERIAL_COLOR_KEYS[i], c = props[key];
+    if (c === undefined) continue;
+    if (!c || c.length !== 3) {
+      throw new Error("setMaterial: " + key + " must be an [r, g, b] array");
+    }
+    target[key] = [c[0], c[1], c[2]];
+  }
+}
+
+// --- Material parts ---
+// Triangles emitted between beginPart(name, props) and endPart() are drawn
+// with that part's material. Reopening a name adds to the same part.
+var _parts = [];
+var _currentPart = -1;
+// Flat [indexCount, part] pairs: where each run of triangles starts (-1 = no part)
+var _partRuns = [];
+
+function beginPart(name, props) {
+  if (typeof name !== "string" || name === "") {
+    throw new Error("beginPart: expected a part name");
+  }
+  if (_definingInstance) {
+    throw new Error("beginPart: cannot open a part inside defineInstance()");
+  }
+  if (_currentPart >= 0) {
+    throw new Error('beginPart: part "' + _parts[_currentPart].name + '" is still open, call endPart() first');
+  }
+  var index = -1;
+  for (var i = 0; i < _parts.length; i++) {
+    if (_parts[i].name === name) { index = i; break; }
+  }
+  if (index < 0) {
+    index = _parts.length;
+    _parts.push({ name: name, materialProps: {} });
+  }
+  _currentPart = index;
+  if (props) setMaterial(props);
+  _partRuns.push(_indexCount, index);
+}
+
+function endPart() {
+  if (_currentPart < 0) throw new Error("endPart: no matching beginPart()");
+  if (_definingInstance) {
+    throw new Error("endPart: cannot close a part inside defineInstance()");
+  }
+  _currentPart = -1;
+  _partRuns.push(_indexCount, -1);
+}
+
+// Reorder the triangle list so each part is one contiguous range: triangles
+// outside any part first, then every part in order of first use.
+function _sortIndicesByPart(indices) {
+  var runs = [0, -1].concat(_partRuns, [indices.length, -1]);
+  var counts = [];
+  for (var k = 0; k <= _parts.length; k++) counts.push(0);
+  for (var r = 0; r < runs.length - 2; r += 2) {
+    counts[runs[r + 1] + 1] += runs[r + 2] - runs[r];
+  }
+  var starts = [], next = [], total = 0;
+  for (var k = 0; k <= _parts.length; k++) {
+    starts.push(total);
+    next.push(total);
+    total += counts[k];
+  }
+  var sorted = new Uint32Array(indices.length);
+  for (var r = 0; r < runs.length - 2; r += 2) {
+    var k = runs[r + 1] + 1;
+    sorted.set(indices.subarray(runs[r], runs[r + 2]), next[k]);
+    next[k] += runs[r + 2] - runs[r];
+  }
+  var groups = [];
+  for (var p = 0; p < _parts.length; p++) {
+    groups.push({
+      name: _parts[p].name, materialProps: _parts[p].materialProps,
+      start: starts[p + 1], count: counts[p + 1]
+    });
+  }
+  return { indices: sorted, groups: groups };
+}
+
+// =========================================================================
+// Progress reporting
+// Throttled { progress: true } messages tell the main thread which generator
+// is running, how far sdfMesh has got, and how many vertices exist so far.
+// =========================================================================
+var PROGRESS_INTERVAL_MS = 100;
+var _progressCall = "";
+var _progressSlice = 0;
+var _progressSlices = 0;
+var _lastProgressTime = 0;
+
+function _setProgress(call, slice, slices) {
+  _progressCall = call;
+  _progressSlice = slice;
+  _progressSlices = slices;
+  _postProgress();
+}
+
+function _postProgress() {
+  var now = Date.now();
+  if (now - _lastProgressTime < PROGRESS_INTERVAL_MS) return;
+  _lastProgressTime = now;
+  self.postMessage({
+    progress: true, call: _progressCall,
+    slice: _progressSlice, slices: _progressSlices, meshVertexCount: _meshCount
+  });
+}
+
+// =========================================================================
+// Transform stack
+// The current matrix maps model coordinates to world coordinates for
+// everything emitted. It is a 4x4 affine matrix stored as its top three rows
+// (row-major). Calls compose in local space as in OpenGL: the last
+// translate/rotate/scale is the first one applied to a vertex.
+// =========================================================================
+var _matrix = [1,0,0,0, 0,1,0,0, 0,0,1,0];
+var _matrixStack = [];
+// Normals go through the inverse transpose; a mirroring transform (negative
+// determinant) also flips triangle winding so faces stay outward
+var _normalMatrix = [1,0,0, 0,1,0, 0,0,1];
+var _mirrored = false;
+var _identityTransform = true;
+// World-space output of _toWorld / _toWorldNormal
+var _wx = 0, _wy = 0, _wz = 0;
+
+function _setMatrix(m) {
+  _matrix = m;
+  var a = m[0], b = m[1], c = m[2];
+  var d = m[4], e = m[5], f = m[6];
+  var g = m[8], h = m[9], i = m[10];
+  // Cofactor matrix = determinant * inverse transpose
+  var c00 = e*i - f*h, c01 = f*g - d*i, c02 = d*h - e*g;
+  var c10 = c*h - b*i, c11 = a*i - c*g, c12 = b*g - a*h;
+  var c20 = b*f - c*e, c21 = c*d - a*f, c22 = a*e - b*d;
+  var det = a*c00 + b*c01 + c*c02;
+  var sign = det < 0 ? -1 : 1;
+  _normalMatrix = [
+    c00*sign, c01*sign, c02*sign,
+    c10*sign, c11*sign, c12*sign,
+    c20*sign, c21*sign, c22*sign
+  ];
+  _mirrored = det < 0;
+  _identityTransform =
+    a === 1 && b === 0 && c === 0 && m[3] === 0 &&
+    d === 0 && e === 1 && f === 0 && m[7] === 0 &&
+    g === 0 && h === 0 && i === 1 && m[11] === 0;
+}
+
+// Product of two affine matrices in the 3x4 layout
+function _multiplyAffine(m, n) {
+  var out = [];
+  for (var row = 0; row < 12; row += 4) {
+    var m0 = m[row], m1 = m[row+1], m2 = m[row+2];
+    out[row]   = m0*n[0] + m1*n[4] + m2*n[8];
+    out[row+1] = m0*n[1] + m1*n[5] + m2*n[9];
+    out[row+2] = m0*n[2] + m1*n[6] + m2*n[10];
+    out[row+3] = m0*n[3] + m1*n[7] + m2*n[11] + m[row+3];
+  }
+  return out;
+}
+
+// Post-multiply the current matrix by n
+function _applyTransform(n) {
+  _setMatrix(_multiplyAffine(_matrix, n));
+}
+
+function _toWorld(x, y, z) {
+  var m = _matrix;
+  _wx = m[0]*x + m[1]*y + m[2]*z + m[3];
+  _wy = m[4]*x + m[5]*y + m[6]*z + m[7];
+  _wz = m[8]*x + m[9]*y + m[10]*z + m[11];
+}
+
+function _toWorldNormal(nx, ny, nz) {
+  var n = _normalMatrix;
+  var x = n[0]*nx + n[1]*ny + n[2]*nz;
+  var y = n[3]*nx + n[4]*ny + n[5]*nz;
+  var z = n[6]*nx + n[7]*ny + n[8]*nz;
+  var len = Math.sqrt(x*x + y*y + z*z) || 1;
+  _wx = x / len; _wy = y / len; _wz = z / len;
+}
+
+function pushTransform() {
+  // Matrices are never modified in place, so the reference is a snapshot
+  _matrixStack.push(_matrix);
+}
+
+function popTransform() {
+  if (_matrixStack.length === 0) {
+    throw new Error("popTransform: no matching pushTransform()");
+  }
+  _setMatrix(_matrixStack.pop());
+}
+
+function translate(x, y, z) {
+  _applyTransform([1,0,0,x, 0,1,0,y, 0,0,1,z]);
+}
+
+// Rotations are in radians, counter-clockwise looking down the axis
+function rotateX(angle) {
+  var c = Math.cos(angle), s = Math.sin(angle);
+  _applyTransform([1,0,0,0, 0,c,-s,0, 0,s,c,0]);
 }
 
-// Initial capacity — arrays grow dynamically as needed (no hard limit)
-var _meshCap = 300000;
+function rotateY(angle) {
+  var c = Math.cos(angle), s = Math.sin(angle);
+  _applyTransform([c,0,s,0, 0,1,0,0, -s,0,c,0]);
+}
+
+function rotateZ(angle) {
+  var c = Math.cos(angle), s = Math.sin(angle);
+  _applyTransform([c,-s,0,0, s,c,0,0, 0,0,1,0]);
+}
+
+// scale(s) is uniform; scale(sx, sy, sz) per axis
+function scale(sx, sy, sz) {
+  if (sy === undefined) { sy = sx; sz = sx; }
+  _applyTransform([sx,0,0,0, 0,sy,0,0, 0,0,sz,0]);
+}
+
+// =========================================================================
+// Indexed mesh buffers
+// Vertices are stored once (position, normal, color) and triangles reference
+// them through an index buffer. Arrays grow dynamically (no hard limit).
+// =========================================================================
+var _meshCap = 100000;
 let _meshCount = 0;
 let _meshPositions, _meshColors;
+var _indexCap = 300000;
+var _indexCount = 0;
+var _meshIndices;
+
+// Welding tolerances — vertices whose position, normal and color all match
+// within these steps collapse into one shared vertex.
+var WELD_POSITION_EPS = 1e-5;
+var WELD_NORMAL_EPS = 1e-3;
+var WELD_COLOR_EPS = 1 / 512;
+var _weldMap = new Map();
+
+// Pooled execution: when the grid of each sdfMesh call is split into Z-slabs
+// across workers, _slab is { index, count } and only slab 0 emits geometry
+// made outside sdfMesh. Vertices on slab boundaries are recorded in
+// _seamVertices so the main thread can merge the copies from both sides.
+var _slab = null;
+var _emitting = true;
+var _seamVertices = [];
+
+// Start a fresh, empty set of vertex and index buffers
+function _resetMeshBuffers() {
+  _meshCount = 0;
+  _meshCap = 100000;
+  _meshPositions = new Float32Array(_meshCap * 3);
+  _meshColors = new Float32Array(_meshCap * 3);
+  _meshNormals = new Float32Array(_meshCap * 3);
+  _indexCount = 0;
+  _indexCap = 300000;
+  _meshIndices = new Uint32Array(_indexCap);
+  _weldMap = new Map();
+}
 
-// Double the capacity of all mesh buffers when full
+// Double the capacity of all vertex buffers when full
 function _growMesh() {
   _meshCap *= 2;
   var newPos = new Float32Array(_meshCap * 3);
@@ -212,17 +1055,78 @@ function _growMesh() {
   _meshNormals = newNrm;
 }
 
-function emitTriangle(x1,y1,z1, x2,y2,z2, x3,y3,z3, r,g,b) {
-  if (_meshCount + 3 > _meshCap) _growMesh();
+// Double the capacity of the index buffer when full
+function _growIndices() {
+  _indexCap *= 2;
+  var newIdx = new Uint32Array(_indexCap);
+  newIdx.set(_meshIndices);
+  _meshIndices = newIdx;
+}
+
+// Append a vertex without welding and return its index.
+function _pushVertex(x,y,z, nx,ny,nz, r,g,b) {
+  if (!_emitting) return -1;
+  if (_meshCount + 1 > _meshCap) _growMesh();
   var i = _meshCount * 3;
-  _meshPositions[i] = x1; _meshPositions[i+1] = y1; _meshPositions[i+2] = z1;
-  _meshPositions[i+3] = x2; _meshPositions[i+4] = y2; _meshPositions[i+5] = z2;
-  _meshPositions[i+6] = x3; _meshPositions[i+7] = y3; _meshPositions[i+8] = z3;
-  var c = _meshCount * 3;
-  _meshColors[c] = r; _meshColors[c+1] = g; _meshColors[c+2] = b;
-  _meshColors[c+3] = r; _meshColors[c+4] = g; _meshColors[c+5] = b;
-  _meshColors[c+6] = r; _meshColors[c+7] = g; _meshColors[c+8] = b;
-  _meshCount += 3;
+  _meshPositions[i] = x; _meshPositions[i+1] = y; _meshPositions[i+2] = z;
+  _meshNormals[i] = nx; _meshNormals[i+1] = ny; _meshNormals[i+2] = nz;
+  _meshColors[i] = r; _meshColors[i+1] = g; _meshColors[i+2] = b;
+  return _meshCount++;
+}
+
+// Return the index of an existing vertex matching within the weld
+// tolerances, or append a new one.
+function _weldVertex(x,y,z, nx,ny,nz, r,g,b) {
+  var key =
+    Math.round(x / WELD_POSITION_EPS) + "," +
+    Math.round(y / WELD_POSITION_EPS) + "," +
+    Math.round(z / WELD_POSITION_EPS) + "|" +
+    Math.round(nx / WELD_NORMAL_EPS) + "," +
+    Math.round(ny / WELD_NORMAL_EPS) + "," +
+    Math.round(nz / WELD_NORMAL_EPS) + "|" +
+    Math.round(r / WELD_COLOR_EPS) + "," +
+    Math.round(g / WELD_COLOR_EPS) + "," +
+    Math.round(b / WELD_COLOR_EPS);
+  var idx = _weldMap.get(key);
+  if (idx !== undefined) return idx;
+  idx = _pushVertex(x,y,z, nx,ny,nz, r,g,b);
+  if (idx >= 0) _weldMap.set(key, idx);
+  return idx;
+}
+
+function _pushTriangle(a, b, c) {
+  if (!_emitting) return;
+  if (_mirrored) { var t = b; b = c; c = t; }
+  if (_indexCount + 3 > _indexCap) _growIndices();
+  _meshIndices[_indexCount] = a;
+  _meshIndices[_indexCount+1] = b;
+  _meshIndices[_indexCount+2] = c;
+  _indexCount += 3;
+  if (_bakeSize > 0 && !_definingInstance) _recordBakeTriangle(a, b, c);
+  // Hand-rolled emitTriangle loops report too, every 4096 triangles
+  if (_indexCount % 12288 === 0) _postProgress();
+}
+
+// Flat triangle — every corner gets the face normal, so welding only merges
+// corners shared with coplanar neighbours (e.g. the two halves of a quad).
+function emitTriangle(x1,y1,z1, x2,y2,z2, x3,y3,z3, r,g,b) {
+  if (!_identityTransform) {
+    _toWorld(x1,y1,z1); x1 = _wx; y1 = _wy; z1 = _wz;
+    _toWorld(x2,y2,z2); x2 = _wx; y2 = _wy; z2 = _wz;
+    _toWorld(x3,y3,z3); x3 = _wx; y3 = _wy; z3 = _wz;
+  }
+  var ux = x2-x1, uy = y2-y1, uz = z2-z1;
+  var vx = x3-x1, vy = y3-y1, vz = z3-z1;
+  var nx = uy*vz - uz*vy, ny = uz*vx - ux*vz, nz = ux*vy - uy*vx;
+  var nLen = Math.sqrt(nx*nx + ny*ny + nz*nz) || 1;
+  // _pushTriangle reverses mirrored triangles, so the normal follows
+  if (_mirrored) nLen = -nLen;
+  nx /= nLen; ny /= nLen; nz /= nLen;
+  _pushTriangle(
+    _weldVertex(x1,y1,z1, nx,ny,nz, r,g,b),
+    _weldVertex(x2,y2,z2, nx,ny,nz, r,g,b),
+    _weldVertex(x3,y3,z3, nx,ny,nz, r,g,b)
+  );
 }
 
 function emitQuad(x1,y1,z1, x2,y2,z2, x3,y3,z3, x4,y4,z4, r,g,b) {
@@ -233,6 +1137,7 @@ function emitQuad(x1,y1,z1, x2,y2,z2, x3,y3,z3, x4,y4,z4, r,g,b) {
 // --- High-level shape primitives ---
 
 function box(cx,cy,cz, sx,sy,sz, r,g,b) {
+  _setProgress("box", 0, 0);
   var hx = sx/2, hy = sy/2, hz = sz/2;
   var x0=cx-hx, x1=cx+hx, y0=cy-hy, y1=cy+hy, z0=cz-hz, z1=cz+hz;
   // Front  (+Z)
@@ -396,33 +1301,153 @@ function opShell(d, thickness) { return Math.abs(d) - thickness; }
 function opOnion(d, thickness) { return Math.abs(d) - thickness; }
 
 // =========================================================================
-// Domain Operations — transform query point before SDF evaluation
+// 2D SDF Primitives — distance from (px,py) to a shape in the plane
+// Combine them with the same op* functions as 3D distances, then lift the
+// result into 3D with opExtrude or opRevolve.
 // =========================================================================
 
-// Mirror across YZ plane (reflect x)
-function domainMirror(px) { return Math.abs(px); }
+// Circle centered at origin with radius r.
+function sd2Circle(px,py, r) {
+  return Math.sqrt(px*px + py*py) - r;
+}
 
-// Infinite repetition along one axis with given spacing
-// Returns the local coordinate to use instead of px
-function domainRepeat(px, spacing) {
-  return ((px % spacing) + spacing) % spacing - spacing / 2;
+// Axis-aligned rectangle centered at origin with half-extents (hx,hy).
+function sd2Box(px,py, hx,hy) {
+  var dx = Math.abs(px) - hx, dy = Math.abs(py) - hy;
+  var ex = Math.max(dx, 0), ey = Math.max(dy, 0);
+  return Math.sqrt(ex*ex + ey*ey) + Math.min(Math.max(dx, dy), 0);
 }
 
-// Twist around Y axis — rotates XZ by angle proportional to Y
-// Returns [rx, rz] to use instead of [px, pz]
-function domainTwist(px, py, pz, k) {
-  var c = Math.cos(k * py), s = Math.sin(k * py);
-  return [px * c - pz * s, px * s + pz * c];
+// Closed polygon through points [[x,y], ...] (any winding, may be concave).
+function sd2Polygon(px,py, points) {
+  var n = points.length;
+  if (n < 3) throw new Error("sd2Polygon: need at least 3 points");
+  var d = (px-points[0][0])*(px-points[0][0]) + (py-points[0][1])*(py-points[0][1]);
+  var s = 1;
+  for (var i = 0, j = n - 1; i < n; j = i, i++) {
+    var vi = points[i], vj = points[j];
+    var ex = vj[0] - vi[0], ey = vj[1] - vi[1];
+    var wx = px - vi[0], wy = py - vi[1];
+    var t = Math.max(0, Math.min(1, (wx*ex + wy*ey) / (ex*ex + ey*ey || 1)));
+    var bx = wx - ex*t, by = wy - ey*t;
+    d = Math.min(d, bx*bx + by*by);
+    // Winding test: flip the sign for every edge crossing the ray to +x
+    var c1 = py >= vi[1], c2 = py < vj[1], c3 = ex*wy > ey*wx;
+    if ((c1 && c2 && c3) || (!c1 && !c2 && !c3)) s = -s;
+  }
+  return s * Math.sqrt(d);
 }
 
-// Bend around X axis — rotates XY by angle proportional to X
-// Returns [bx, by] to use instead of [px, py]
-function domainBend(px, py, k) {
-  var c = Math.cos(k * px), s = Math.sin(k * px);
-  return [px * c - py * s, px * s + py * c];
+// Star with n points and outer radius r, first point on +Y. m (2..n) sets
+// how deep the inner corners cut: 2 is the sharpest star, n a polygon.
+function sd2Star(px,py, r, n, m) {
+  var an = Math.PI / n, en = Math.PI / m;
+  var acx = Math.cos(an), acy = Math.sin(an);
+  var ecx = Math.cos(en), ecy = Math.sin(en);
+  var a = Math.atan2(px, py);
+  var bn = a - 2*an * Math.floor(a / (2*an)) - an;
+  var len = Math.sqrt(px*px + py*py);
+  var qx = len * Math.cos(bn) - r*acx, qy = len * Math.abs(Math.sin(bn)) - r*acy;
+  var h = Math.max(0, Math.min(r*acy/ecy, -(qx*ecx + qy*ecy)));
+  qx += ecx*h; qy += ecy*h;
+  return Math.sqrt(qx*qx + qy*qy) * (qx < 0 ? -1 : 1);
 }
 
-// Rotate around Y axis by angle theta — standard 2D rotation in the XZ plane
+// Arc of radius ra and half-thickness rb, centered on +Y and spanning
+// aperture radians to either side of it.
+function sd2Arc(px,py, aperture, ra, rb) {
+  var sx = Math.sin(aperture), sy = Math.cos(aperture);
+  px = Math.abs(px);
+  if (sy*px > sx*py) {
+    var dx = px - sx*ra, dy = py - sy*ra;
+    return Math.sqrt(dx*dx + dy*dy) - rb;
+  }
+  return Math.abs(Math.sqrt(px*px + py*py) - ra) - rb;
+}
+
+// Unsigned distance to the quadratic Bezier curve A→C with control point B.
+// Subtract a thickness to turn it into a stroke.
+function sd2Bezier(px,py, ax,ay, bx,by, cx,cy) {
+  var aX = bx - ax, aY = by - ay;
+  var bX = ax - 2*bx + cx, bY = ay - 2*by + cy;
+  var dX = ax - px, dY = ay - py;
+  var bb = bX*bX + bY*bY;
+  if (bb < 1e-12) {
+    // Control point on the chord: the curve is the straight segment A→C
+    var ex = cx - ax, ey = cy - ay;
+    var t = Math.max(0, Math.min(1, -(dX*ex + dY*ey) / (ex*ex + ey*ey || 1)));
+    var sx = dX + ex*t, sy = dY + ey*t;
+    return Math.sqrt(sx*sx + sy*sy);
+  }
+  // Closest point: roots of a cubic in t (Cardano / trigonometric form)
+  var kk = 1 / bb;
+  var kx = kk * (aX*bX + aY*bY);
+  var ky = kk * (2*(aX*aX + aY*aY) + (dX*bX + dY*bY)) / 3;
+  var kz = kk * (dX*aX + dY*aY);
+  var p = ky - kx*kx, p3 = p*p*p;
+  var q = kx*(2*kx*kx - 3*ky) + kz;
+  var h = q*q + 4*p3;
+  var res;
+  if (h >= 0) {
+    h = Math.sqrt(h);
+    var x0 = (h - q) / 2, x1 = (-h - q) / 2;
+    var t = Math.max(0, Math.min(1, Math.cbrt(x0) + Math.cbrt(x1) - kx));
+    var qx = dX + (2*aX + bX*t)*t, qy = dY + (2*aY + bY*t)*t;
+    res = qx*qx + qy*qy;
+  } else {
+    var z = Math.sqrt(-p);
+    var v = Math.acos(q / (p*z*2)) / 3;
+    var m = Math.cos(v), n = Math.sin(v) * 1.732050808;
+    var t0 = Math.max(0, Math.min(1, (m + m)*z - kx));
+    var t1 = Math.max(0, Math.min(1, (-n - m)*z - kx));
+    var q0x = dX + (2*aX + bX*t0)*t0, q0y = dY + (2*aY + bY*t0)*t0;
+    var q1x = dX + (2*aX + bX*t1)*t1, q1y = dY + (2*aY + bY*t1)*t1;
+    res = Math.min(q0x*q0x + q0y*q0y, q1x*q1x + q1y*q1y);
+  }
+  return Math.sqrt(res);
+}
+
+// Extrude a 2D distance (evaluated at x,y) along Z, from -h to +h.
+function opExtrude(d2, pz, h) {
+  var wx = d2, wy = Math.abs(pz) - h;
+  var ex = Math.max(wx, 0), ey = Math.max(wy, 0);
+  return Math.min(Math.max(wx, wy), 0) + Math.sqrt(ex*ex + ey*ey);
+}
+
+// Revolve around the Y axis: returns the 2D point [r - offset, y] to
+// evaluate a 2D shape at. offset moves the profile away from the axis.
+function opRevolve(px,py,pz, offset) {
+  return [Math.sqrt(px*px + pz*pz) - (offset || 0), py];
+}
+
+// =========================================================================
+// Domain Operations — transform query point before SDF evaluation
+// =========================================================================
+
+// Mirror across YZ plane (reflect x)
+function domainMirror(px) { return Math.abs(px); }
+
+// Infinite repetition along one axis with given spacing
+// Returns the local coordinate to use instead of px
+function domainRepeat(px, spacing) {
+  return ((px % spacing) + spacing) % spacing - spacing / 2;
+}
+
+// Twist around Y axis — rotates XZ by angle proportional to Y
+// Returns [rx, rz] to use instead of [px, pz]
+function domainTwist(px, py, pz, k) {
+  var c = Math.cos(k * py), s = Math.sin(k * py);
+  return [px * c - pz * s, px * s + pz * c];
+}
+
+// Bend around X axis — rotates XY by angle proportional to X
+// Returns [bx, by] to use instead of [px, py]
+function domainBend(px, py, k) {
+  var c = Math.cos(k * px), s = Math.sin(k * px);
+  return [px * c - py * s, px * s + py * c];
+}
+
+// Rotate around Y axis by angle theta — standard 2D rotation in the XZ plane
 // Returns [rx, rz] to use instead of [px, pz]
 function domainRotateY(px, pz, theta) {
   var c = Math.cos(theta), s = Math.sin(theta);
@@ -435,32 +1460,6 @@ function domainRotateY(px, pz, theta) {
 var _meshNormals;
 var _hasCustomNormals = false;
 
-// Emit a triangle with explicit per-vertex normals (for smooth shading).
-function _emitSmoothTriangle(
-  x1,y1,z1, nx1,ny1,nz1,
-  x2,y2,z2, nx2,ny2,nz2,
-  x3,y3,z3, nx3,ny3,nz3,
-  r,g,b
-) {
-  if (_meshCount + 3 > _meshCap) _growMesh();
-  _hasCustomNormals = true;
-  var i = _meshCount * 3;
-  // Positions
-  _meshPositions[i]   = x1; _meshPositions[i+1] = y1; _meshPositions[i+2] = z1;
-  _meshPositions[i+3] = x2; _meshPositions[i+4] = y2; _meshPositions[i+5] = z2;
-  _meshPositions[i+6] = x3; _meshPositions[i+7] = y3; _meshPositions[i+8] = z3;
-  // Normals — SDF gradient direction at each vertex (points away from surface)
-  _meshNormals[i]   = nx1; _meshNormals[i+1] = ny1; _meshNormals[i+2] = nz1;
-  _meshNormals[i+3] = nx2; _meshNormals[i+4] = ny2; _meshNormals[i+5] = nz2;
-  _meshNormals[i+6] = nx3; _meshNormals[i+7] = ny3; _meshNormals[i+8] = nz3;
-  // Colors — uniform per face
-  var c = _meshCount * 3;
-  _meshColors[c]   = r; _meshColors[c+1] = g; _meshColors[c+2] = b;
-  _meshColors[c+3] = r; _meshColors[c+4] = g; _meshColors[c+5] = b;
-  _meshColors[c+6] = r; _meshColors[c+7] = g; _meshColors[c+8] = b;
-  _meshCount += 3;
-}
-
 // =========================================================================
 // Marching Cubes Lookup Tables
 // =========================================================================
@@ -485,33 +1484,259 @@ var MC_TRI_TABLE = [[-1],
 [9,10,8,10,11,8,-1],[3,0,9,3,9,11,11,9,10,-1],[0,1,10,0,10,8,8,10,11,-1],[3,1,10,11,3,10,-1],[1,2,11,1,11,9,9,11,8,-1],[3,0,9,3,9,11,1,2,9,2,11,9,-1],[0,2,11,8,0,11,-1],[3,2,11,-1],[2,3,8,2,8,10,10,8,9,-1],[9,10,2,0,9,2,-1],[2,3,8,2,8,10,0,1,8,1,10,8,-1],[1,10,2,-1],[1,3,8,9,1,8,-1],[0,9,1,-1],[0,3,8,-1],[-1]];
 
 // =========================================================================
-// sdfMesh() — Marching Cubes iso-surface extraction from an SDF function
+// sdfMesh() — iso-surface extraction from an SDF function
+// options.mesher selects the algorithm:
+//   "marchingCubes"  (default) classic lookup-table triangulation
+//   "surfaceNets"    one vertex per surface cell at the mean edge crossing
+//   "dualContouring" one vertex per surface cell at the QEF minimizer of the
+//                    edge crossings' tangent planes — keeps sharp edges
 // =========================================================================
-function sdfMesh(sdfFn, colorFn, bMin, bMax, resolution) {
+var SDF_MESHERS = ["marchingCubes", "surfaceNets", "dualContouring"];
+
+// Sparse evaluation: the grid is split octree-style into blocks; a block
+// whose center distance exceeds its half-diagonal (times options.lipschitz,
+// a safety margin for inexact SDFs) cannot contain surface and is skipped.
+// Blocks at or below this many cells per side are evaluated densely.
+var SPARSE_LEAF_CELLS = 4;
+var DEFAULT_LIPSCHITZ = 1.5;
+
+// Grid planes evaluated beyond each side of a slab so normals and the ghost
+// cell layer of the dual meshers see the same field as a serial run.
+var SLAB_GHOST_PLANES = 3;
+
+// Per-layer SDF evaluation counters, reported back with the layer output
+var _sdfEvaluations = 0;
+var _sdfGridPoints = 0;
+
+function sdfMesh(sdfFn, colorFn, bMin, bMax, resolution, options) {
   var res = resolution || 64;
+  var mesher = (options && options.mesher) || "marchingCubes";
+  if (SDF_MESHERS.indexOf(mesher) < 0) {
+    throw new Error(
+      'sdfMesh: unknown mesher "' + mesher + '" (expected ' +
+      SDF_MESHERS.map(function(m) { return '"' + m + '"'; }).join(", ") + ")"
+    );
+  }
+  var sparse = !(options && options.sparse === false);
+  var lipschitz = (options && options.lipschitz) || DEFAULT_LIPSCHITZ;
+
+  var userSdf = sdfFn;
+  sdfFn = function(x, y, z) {
+    _sdfEvaluations++;
+    return userSdf(x, y, z);
+  };
+
+  // Cell layers this worker meshes, and the grid planes it evaluates
+  var slabLo = 0, slabHi = res;
+  if (_slab) {
+    slabLo = Math.floor(res * _slab.index / _slab.count);
+    slabHi = Math.floor(res * (_slab.index + 1) / _slab.count);
+  }
+
   var nx = res + 1, ny = res + 1, nz = res + 1;
+  var grid = {
+    res: res, nx: nx, ny: ny, nz: nz, bMin: bMin,
+    slabLo: slabLo, slabHi: slabHi,
+    kLo: Math.max(0, slabLo - SLAB_GHOST_PLANES),
+    kHi: Math.min(res, slabHi + SLAB_GHOST_PLANES),
+    // Bounding box dimensions and cell size
+    dx: (bMax[0] - bMin[0]) / res,
+    dy: (bMax[1] - bMin[1]) / res,
+    dz: (bMax[2] - bMin[2]) / res,
+    field: new Float32Array(nx * ny * nz),
+    // 1 where field holds the true SDF value; pruned points only carry a sign
+    exact: new Uint8Array(nx * ny * nz),
+    // Cells evaluated or pruned so far, for progress during phase 1
+    cellsDone: 0
+  };
+  _sdfGridPoints += nx * ny * nz;
+  _hasCustomNormals = true;
+  if (slabLo === slabHi) return;
+
+  // Every slab worker must leave random() where the others do, whatever
+  // its share of sdfFn/colorFn calls — so sdfMesh never advances it
+  var savedSeed = _seed;
+  var wasEmitting = _emitting;
+  _emitting = true;
+  var previousSource = _beginBakeSource("box", colorFn);
+  _setProgress("sdfMesh", 0, 2 * (slabHi - slabLo));
+  try {
+    // Phase 1: Evaluate the SDF on the grid
+    if (sparse) {
+      _evaluateSparse(grid, sdfFn, lipschitz, 0, 0, 0, res, res, res);
+    } else {
+      _evaluateBlock(grid, sdfFn, 0, 0, 0, res, res, res);
+    }
+
+    // Epsilon for SDF gradient via central differences
+    var eps = Math.max(grid.dx, grid.dy, grid.dz) * 0.5;
+
+    if (mesher === "marchingCubes") {
+      _marchingCubes(grid, sdfFn, colorFn, eps);
+    } else {
+      _dualMesh(grid, sdfFn, colorFn, eps, mesher === "dualContouring");
+    }
+    _setProgress("sdfMesh", 2 * (slabHi - slabLo), 2 * (slabHi - slabLo));
+  } finally {
+    _seed = savedSeed;
+    _emitting = wasEmitting;
+    _bakeSource = previousSource;
+  }
+}
+
+// Phase 1 fills the first half of the sdfMesh progress bar: the octree
+// blocks partition the cells between the evaluated planes, so counting each
+// block's cell layers as it finishes adds up to the whole slab.
+function _evaluateProgress(grid, cells) {
+  grid.cellsDone += cells;
+  var slices = grid.slabHi - grid.slabLo;
+  var total = grid.res * grid.res * (grid.kHi - grid.kLo);
+  _setProgress(
+    "sdfMesh", total > 0 ? Math.floor(slices * grid.cellsDone / total) : 0, 2 * slices
+  );
+}
 
-  // Bounding box dimensions and cell size
-  var dx = (bMax[0] - bMin[0]) / res;
-  var dy = (bMax[1] - bMin[1]) / res;
-  var dz = (bMax[2] - bMin[2]) / res;
+// Evaluate every grid point in the inclusive index box [i0..i1]^3, clipped
+// to the planes this worker evaluates.
+function _evaluateBlock(grid, sdfFn, i0, j0, k0, i1, j1, k1) {
+  var nx = grid.nx, ny = grid.ny, field = grid.field, exact = grid.exact;
+  var kStart = Math.max(k0, grid.kLo), kEnd = Math.min(k1, grid.kHi);
+  for (var iz = kStart; iz <= kEnd; iz++) {
+    var pz = grid.bMin[2] + iz * grid.dz;
+    for (var iy = j0; iy <= j1; iy++) {
+      var py = grid.bMin[1] + iy * grid.dy;
+      for (var ix = i0; ix <= i1; ix++) {
+        var idx = iz * ny * nx + iy * nx + ix;
+        if (exact[idx]) continue;
+        field[idx] = sdfFn(grid.bMin[0] + ix * grid.dx, py, pz);
+        exact[idx] = 1;
+      }
+    }
+    // Both planes of the cell layer below are done
+    if (iz > kStart) _evaluateProgress(grid, (i1 - i0) * (j1 - j0));
+  }
+}
 
-  // Phase 1: Evaluate SDF at every grid vertex
-  var field = new Float32Array(nx * ny * nz);
-  for (var iz = 0; iz < nz; iz++) {
-    var pz = bMin[2] + iz * dz;
-    for (var iy = 0; iy < ny; iy++) {
-      var py = bMin[1] + iy * dy;
-      for (var ix = 0; ix < nx; ix++) {
-        var px = bMin[0] + ix * dx;
-        field[iz * ny * nx + iy * nx + ix] = sdfFn(px, py, pz);
+// Octree descent: prune blocks the distance bound proves empty, recurse
+// into the rest, and evaluate small blocks densely. The octree always spans
+// the whole grid so a slab ends up with exactly the values a serial run has.
+function _evaluateSparse(grid, sdfFn, lipschitz, i0, j0, k0, i1, j1, k1) {
+  if (k1 < grid.kLo || k0 > grid.kHi) return;
+  var si = i1 - i0, sj = j1 - j0, sk = k1 - k0;
+  if (Math.max(si, sj, sk) <= SPARSE_LEAF_CELLS) {
+    _evaluateBlock(grid, sdfFn, i0, j0, k0, i1, j1, k1);
+    return;
+  }
+  var hx = si * grid.dx * 0.5, hy = sj * grid.dy * 0.5, hz = sk * grid.dz * 0.5;
+  var d = sdfFn(
+    grid.bMin[0] + i0 * grid.dx + hx,
+    grid.bMin[1] + j0 * grid.dy + hy,
+    grid.bMin[2] + k0 * grid.dz + hz
+  );
+  if (Math.abs(d) > Math.sqrt(hx*hx + hy*hy + hz*hz) * lipschitz) {
+    // No surface inside — only the sign matters here. Points shared with
+    // an evaluated neighbour keep their exact value.
+    var nx = grid.nx, ny = grid.ny, field = grid.field, exact = grid.exact;
+    var kEnd = Math.min(k1, grid.kHi);
+    for (var iz = Math.max(k0, grid.kLo); iz <= kEnd; iz++) {
+      for (var iy = j0; iy <= j1; iy++) {
+        for (var ix = i0; ix <= i1; ix++) {
+          var idx = iz * ny * nx + iy * nx + ix;
+          if (!exact[idx]) field[idx] = d;
+        }
+      }
+    }
+    _evaluateProgress(grid, si * sj * Math.max(0, kEnd - Math.max(k0, grid.kLo)));
+    return;
+  }
+  // Split every axis longer than one cell in half
+  var im = si > 1 ? (i0 + i1) >> 1 : i1;
+  var jm = sj > 1 ? (j0 + j1) >> 1 : j1;
+  var km = sk > 1 ? (k0 + k1) >> 1 : k1;
+  var xs = im < i1 ? [[i0, im], [im, i1]] : [[i0, i1]];
+  var ys = jm < j1 ? [[j0, jm], [jm, j1]] : [[j0, j1]];
+  var zs = km < k1 ? [[k0, km], [km, k1]] : [[k0, k1]];
+  for (var a = 0; a < zs.length; a++) {
+    for (var b = 0; b < ys.length; b++) {
+      for (var c = 0; c < xs.length; c++) {
+        _evaluateSparse(
+          grid, sdfFn, lipschitz,
+          xs[c][0], ys[b][0], zs[a][0], xs[c][1], ys[b][1], zs[a][1]
+        );
       }
     }
   }
+}
+
+// SDF gradient at world position (x,y,z) reconstructed from the cached
+// field: central differences at the 8 surrounding grid points, blended
+// trilinearly. Writes into out and returns false if any sample it needs
+// was pruned (the caller then falls back to evaluating the SDF).
+function _fieldGradient(grid, x, y, z, out) {
+  var nx = grid.nx, ny = grid.ny, nz = grid.nz;
+  var field = grid.field, exact = grid.exact;
+  var gx = (x - grid.bMin[0]) / grid.dx;
+  var gy = (y - grid.bMin[1]) / grid.dy;
+  var gz = (z - grid.bMin[2]) / grid.dz;
+  var ix = Math.max(0, Math.min(nx - 2, Math.floor(gx)));
+  var iy = Math.max(0, Math.min(ny - 2, Math.floor(gy)));
+  var iz = Math.max(0, Math.min(nz - 2, Math.floor(gz)));
+  var fx = gx - ix, fy = gy - iy, fz = gz - iz;
+  var sx = 0, sy = 0, sz = 0;
+  for (var c = 0; c < 8; c++) {
+    var ox = c & 1, oy = (c >> 1) & 1, oz = (c >> 2) & 1;
+    var w = (ox ? fx : 1 - fx) * (oy ? fy : 1 - fy) * (oz ? fz : 1 - fz);
+    if (w <= 0) continue;
+    var cx = ix + ox, cy = iy + oy, cz = iz + oz;
+    // One-sided differences on the grid border
+    var x0 = Math.max(cx - 1, 0), x1 = Math.min(cx + 1, nx - 1);
+    var y0 = Math.max(cy - 1, 0), y1 = Math.min(cy + 1, ny - 1);
+    var z0 = Math.max(cz - 1, 0), z1 = Math.min(cz + 1, nz - 1);
+    var row = cz * ny * nx + cy * nx;
+    var ia = row + x0, ib = row + x1;
+    var ic = cz * ny * nx + y0 * nx + cx, id = cz * ny * nx + y1 * nx + cx;
+    var ie = z0 * ny * nx + cy * nx + cx, ig = z1 * ny * nx + cy * nx + cx;
+    if (!(exact[ia] && exact[ib] && exact[ic] && exact[id] && exact[ie] && exact[ig])) {
+      return false;
+    }
+    sx += w * (field[ib] - field[ia]) / ((x1 - x0) * grid.dx);
+    sy += w * (field[id] - field[ic]) / ((y1 - y0) * grid.dy);
+    sz += w * (field[ig] - field[ie]) / ((z1 - z0) * grid.dz);
+  }
+  out[0] = sx; out[1] = sy; out[2] = sz;
+  return true;
+}
 
-  // Epsilon for SDF gradient via central differences
-  var eps = Math.max(dx, dy, dz) * 0.5;
+// Append a surface vertex with its SDF-gradient normal and sampled color.
+var _gradient = [0, 0, 0];
+function _pushSdfVertex(grid, sdfFn, colorFn, vx, vy, vz, eps) {
+  var gnx, gny, gnz;
+  if (_fieldGradient(grid, vx, vy, vz, _gradient)) {
+    gnx = _gradient[0]; gny = _gradient[1]; gnz = _gradient[2];
+  } else {
+    // Normal from SDF gradient via central differences
+    gnx = sdfFn(vx+eps,vy,vz) - sdfFn(vx-eps,vy,vz);
+    gny = sdfFn(vx,vy+eps,vz) - sdfFn(vx,vy-eps,vz);
+    gnz = sdfFn(vx,vy,vz+eps) - sdfFn(vx,vy,vz-eps);
+  }
+  var glen = Math.sqrt(gnx*gnx+gny*gny+gnz*gnz) || 1;
+  gnx /= glen; gny /= glen; gnz /= glen;
+  // Color is sampled per vertex (in model space, like the SDF) so
+  // neighbouring triangles share it
+  var col = colorFn(vx, vy, vz);
+  if (!_identityTransform) {
+    _toWorldNormal(gnx, gny, gnz); gnx = _wx; gny = _wy; gnz = _wz;
+    _toWorld(vx, vy, vz); vx = _wx; vy = _wy; vz = _wz;
+  }
+  return _pushVertex(vx, vy, vz, gnx, gny, gnz, col[0], col[1], col[2]);
+}
 
+// Marching cubes over a precomputed (res+1)^3 field, for cell layers
+// [grid.slabLo, grid.slabHi).
+function _marchingCubes(grid, sdfFn, colorFn, eps) {
+  var res = grid.res, nx = grid.nx, ny = grid.ny, field = grid.field;
+  var slabLo = grid.slabLo, slabHi = grid.slabHi;
+  var bMin = grid.bMin, dx = grid.dx, dy = grid.dy, dz = grid.dz;
   // Edge vertex indices and corner offsets
   var edgeVerts = [
     [0,1],[1,2],[2,3],[3,0],
@@ -522,12 +1747,38 @@ function sdfMesh(sdfFn, colorFn, bMin, bMax, resolution) {
     [0,0,0],[1,0,0],[1,1,0],[0,1,0],
     [0,0,1],[1,0,1],[1,1,1],[0,1,1]
   ];
+  // Where each cube edge lives in the shared-vertex cache:
+  // [x offset, y offset, slot] with slot 0/1 = X-edge on the near/far Z plane,
+  // 2/3 = Y-edge on the near/far Z plane, 4 = Z-edge between the planes.
+  var edgeSlots = [
+    [0,0,0],[1,0,2],[0,1,0],[0,0,2],
+    [0,0,1],[1,0,3],[0,1,1],[0,0,3],
+    [0,0,4],[1,0,4],[1,1,4],[0,1,4]
+  ];
+
+  // Each grid edge crossing the surface becomes exactly one vertex, shared by
+  // the (up to four) cells around it. Caches cover two Z planes at a time.
+  var planeSize = nx * ny;
+  var xNear = new Int32Array(planeSize), xFar = new Int32Array(planeSize);
+  var yNear = new Int32Array(planeSize), yFar = new Int32Array(planeSize);
+  var zEdge = new Int32Array(planeSize);
+  xFar.fill(-1); yFar.fill(-1);
+  var cache = [xNear, xFar, yNear, yFar, zEdge];
+
+  var vals = [];
+  var verts = [];
 
   // Phase 2-6: March through cells and extract triangles
-  for (var iz = 0; iz < res; iz++) {
+  for (var iz = slabLo; iz < slabHi; iz++) {
+    _setProgress("sdfMesh", slabHi - slabLo + iz - slabLo, 2 * (slabHi - slabLo));
+    // The far plane of the previous slab is the near plane of this one
+    var tmp = xNear; xNear = xFar; xFar = tmp; xFar.fill(-1);
+    tmp = yNear; yNear = yFar; yFar = tmp; yFar.fill(-1);
+    zEdge.fill(-1);
+    cache[0] = xNear; cache[1] = xFar; cache[2] = yNear; cache[3] = yFar;
+
     for (var iy = 0; iy < res; iy++) {
       for (var ix = 0; ix < res; ix++) {
-        var vals = [];
         for (var c = 0; c < 8; c++) {
           var ci = ix + cornerOffsets[c][0];
           var cj = iy + cornerOffsets[c][1];
@@ -542,9 +1793,13 @@ function sdfMesh(sdfFn, colorFn, bMin, bMax, resolution) {
         if (MC_EDGE_TABLE[cubeIndex] === 0) continue;
 
         var edgeMask = MC_EDGE_TABLE[cubeIndex];
-        var verts = [];
         for (var e = 0; e < 12; e++) {
-          if (!(edgeMask & (1 << e))) { verts[e] = null; continue; }
+          if (!(edgeMask & (1 << e))) { verts[e] = -1; continue; }
+          var slot = edgeSlots[e];
+          var slotArr = cache[slot[2]];
+          var slotIdx = (iy + slot[1]) * nx + ix + slot[0];
+          if (slotArr[slotIdx] >= 0) { verts[e] = slotArr[slotIdx]; continue; }
+
           var ev = edgeVerts[e];
           var c0 = cornerOffsets[ev[0]], c1 = cornerOffsets[ev[1]];
           var v0 = vals[ev[0]], v1 = vals[ev[1]];
@@ -553,28 +1808,174 @@ function sdfMesh(sdfFn, colorFn, bMin, bMax, resolution) {
           var vy = bMin[1] + (iy + c0[1] + (c1[1]-c0[1])*t) * dy;
           var vz = bMin[2] + (iz + c0[2] + (c1[2]-c0[2])*t) * dz;
 
-          // Normal from SDF gradient via central differences
-          var gnx = sdfFn(vx+eps,vy,vz) - sdfFn(vx-eps,vy,vz);
-          var gny = sdfFn(vx,vy+eps,vz) - sdfFn(vx,vy-eps,vz);
-          var gnz = sdfFn(vx,vy,vz+eps) - sdfFn(vx,vy,vz-eps);
-          var glen = Math.sqrt(gnx*gnx+gny*gny+gnz*gnz) || 1;
-          verts[e] = [vx, vy, vz, gnx/glen, gny/glen, gnz/glen];
+          var vi = _pushSdfVertex(grid, sdfFn, colorFn, vx, vy, vz, eps);
+          // X/Y-edges on a slab's outer plane are meshed by both slabs
+          if ((slot[2] === 0 || slot[2] === 2) ? (iz === slabLo && slabLo > 0)
+              : (slot[2] !== 4 && iz + 1 === slabHi && slabHi < res)) {
+            _seamVertices.push(vi);
+          }
+          slotArr[slotIdx] = vi;
+          verts[e] = vi;
         }
 
         var tris = MC_TRI_TABLE[cubeIndex];
         for (var t = 0; t < tris.length - 1; t += 3) {
           if (tris[t] === -1) break;
           var a = verts[tris[t]], b = verts[tris[t+1]], c = verts[tris[t+2]];
-          if (!a || !b || !c) continue;
+          if (a < 0 || b < 0 || c < 0) continue;
+          // The lookup table winds clockwise around the outward normal
+          _pushTriangle(a, c, b);
+        }
+      }
+    }
+  }
+}
+
+
+// Surface nets / dual contouring over a precomputed (res+1)^3 field.
+// Every cell whose corners straddle the surface gets one vertex; every grid
+// edge with a sign change becomes a quad joining the four cells around it.
+// A slab owns the edges on planes [grid.slabLo, grid.slabHi) and also places the
+// vertices of the cell layer just below, which those edges reach into.
+function _dualMesh(grid, sdfFn, colorFn, eps, useQef) {
+  var res = grid.res, nx = grid.nx, ny = grid.ny, field = grid.field;
+  var slabLo = grid.slabLo, slabHi = grid.slabHi;
+  var bMin = grid.bMin, dx = grid.dx, dy = grid.dy, dz = grid.dz;
+  var cellVerts = new Int32Array(res * res * res);
+  cellVerts.fill(-1);
+
+  // Edge crossings are shared by up to four cells — cache their tangent
+  // planes (point + unit normal) by grid-edge id for the QEF
+  var planeCache = new Map();
+  // A tight epsilon keeps crossings next to an edge from averaging the
+  // normals of both faces, which would round the feature off again
+  var planeEps = eps * 0.1;
+  function edgePlane(gx, gy, gz, axis, t) {
+    var key = ((gz * ny + gy) * nx + gx) * 3 + axis;
+    var plane = planeCache.get(key);
+    if (plane) return plane;
+    var px = bMin[0] + (gx + (axis === 0 ? t : 0)) * dx;
+    var py = bMin[1] + (gy + (axis === 1 ? t : 0)) * dy;
+    var pz = bMin[2] + (gz + (axis === 2 ? t : 0)) * dz;
+    var gnx = sdfFn(px+planeEps,py,pz) - sdfFn(px-planeEps,py,pz);
+    var gny = sdfFn(px,py+planeEps,pz) - sdfFn(px,py-planeEps,pz);
+    var gnz = sdfFn(px,py,pz+planeEps) - sdfFn(px,py,pz-planeEps);
+    var glen = Math.sqrt(gnx*gnx+gny*gny+gnz*gnz) || 1;
+    plane = [px, py, pz, gnx/glen, gny/glen, gnz/glen];
+    planeCache.set(key, plane);
+    return plane;
+  }
+
+  // The 12 cell edges as [corner x,y,z offsets, axis]
+  var cellEdges = [
+    [0,0,0,0],[0,1,0,0],[0,0,1,0],[0,1,1,0],
+    [0,0,0,1],[1,0,0,1],[0,0,1,1],[1,0,1,1],
+    [0,0,0,2],[1,0,0,2],[0,1,0,2],[1,1,0,2]
+  ];
+  var axisStep = [1, nx, nx * ny];
+
+  // Phase 2: place one vertex in every surface-crossing cell
+  for (var iz = Math.max(0, slabLo - 1); iz < slabHi; iz++) {
+    _setProgress(
+      "sdfMesh", slabHi - slabLo + Math.max(0, iz - slabLo), 2 * (slabHi - slabLo)
+    );
+    for (var iy = 0; iy < res; iy++) {
+      for (var ix = 0; ix < res; ix++) {
+        var count = 0;
+        var mx = 0, my = 0, mz = 0;
+        // Normal equations of the QEF: AtA (symmetric 3x3) and Atb
+        var a00 = 0, a01 = 0, a02 = 0, a11 = 0, a12 = 0, a22 = 0;
+        var b0 = 0, b1 = 0, b2 = 0;
+        var planes = [];
+        for (var e = 0; e < 12; e++) {
+          var ce = cellEdges[e];
+          var gx = ix + ce[0], gy = iy + ce[1], gz = iz + ce[2];
+          var i0 = (gz * ny + gy) * nx + gx;
+          var v0 = field[i0], v1 = field[i0 + axisStep[ce[3]]];
+          if ((v0 < 0) === (v1 < 0)) continue;
+          var t = v0 / (v0 - v1);
+          var ex = bMin[0] + (gx + (ce[3] === 0 ? t : 0)) * dx;
+          var ey = bMin[1] + (gy + (ce[3] === 1 ? t : 0)) * dy;
+          var ez = bMin[2] + (gz + (ce[3] === 2 ? t : 0)) * dz;
+          mx += ex; my += ey; mz += ez;
+          count++;
+          if (useQef) planes.push(edgePlane(gx, gy, gz, ce[3], t));
+        }
+        if (count === 0) continue;
+        mx /= count; my /= count; mz /= count;
 
-          var cx = (a[0]+b[0]+c[0])/3, cy = (a[1]+b[1]+c[1])/3, cz = (a[2]+b[2]+c[2])/3;
-          var col = colorFn(cx, cy, cz);
+        var vx = mx, vy = my, vz = mz;
+        if (useQef) {
+          // Solve relative to the mass point so the regularizer pulls
+          // under-constrained directions (flat faces, edges) towards it
+          for (var p = 0; p < planes.length; p++) {
+            var pl = planes[p];
+            var pnx = pl[3], pny = pl[4], pnz = pl[5];
+            var d = pnx*(pl[0]-mx) + pny*(pl[1]-my) + pnz*(pl[2]-mz);
+            a00 += pnx*pnx; a01 += pnx*pny; a02 += pnx*pnz;
+            a11 += pny*pny; a12 += pny*pnz; a22 += pnz*pnz;
+            b0 += pnx*d; b1 += pny*d; b2 += pnz*d;
+          }
+          var off = _solveQef(a00, a01, a02, a11, a12, a22, b0, b1, b2);
+          // Keep the vertex inside its cell so the mesh cannot fold over
+          var cx0 = bMin[0] + ix * dx, cy0 = bMin[1] + iy * dy, cz0 = bMin[2] + iz * dz;
+          vx = Math.max(cx0, Math.min(cx0 + dx, mx + off[0]));
+          vy = Math.max(cy0, Math.min(cy0 + dy, my + off[1]));
+          vz = Math.max(cz0, Math.min(cz0 + dz, mz + off[2]));
+        }
+        var vi = _pushSdfVertex(grid, sdfFn, colorFn, vx, vy, vz, eps);
+        // The ghost layer below the slab and the slab's top layer are
+        // placed by both neighbouring slabs
+        if (iz < slabLo || (iz === slabHi - 1 && slabHi < res)) _seamVertices.push(vi);
+        cellVerts[(iz * res + iy) * res + ix] = vi;
+      }
+    }
+  }
 
-          _emitSmoothTriangle(
-            a[0],a[1],a[2], a[3],a[4],a[5],
-            b[0],b[1],b[2], b[3],b[4],b[5],
-            c[0],c[1],c[2], c[3],c[4],c[5],
-            col[0], col[1], col[2]
+  // Phase 3: one quad per sign-changing interior grid edge. The four cells
+  // are listed counter-clockwise around the edge axis; flip when the edge
+  // runs from outside to inside so faces wind around the outward normal.
+  function cellAt(cx, cy, cz) { return cellVerts[(cz * res + cy) * res + cx]; }
+  function emitEdgeQuad(q0, q1, q2, q3, insideFirst) {
+    if (q0 < 0 || q1 < 0 || q2 < 0 || q3 < 0) return;
+    if (!insideFirst) { var tmp = q1; q1 = q3; q3 = tmp; }
+    // Split along the shorter diagonal for better-shaped triangles
+    var d02 = _vertexDist2(q0, q2), d13 = _vertexDist2(q1, q3);
+    if (d02 <= d13) {
+      _pushTriangle(q0, q1, q2);
+      _pushTriangle(q0, q2, q3);
+    } else {
+      _pushTriangle(q0, q1, q3);
+      _pushTriangle(q1, q2, q3);
+    }
+  }
+  for (var iz = slabLo; iz < slabHi; iz++) {
+    for (var iy = 0; iy <= res; iy++) {
+      for (var ix = 0; ix <= res; ix++) {
+        var i0 = (iz * ny + iy) * nx + ix;
+        var inside = field[i0] < 0;
+        // X-edge: cells around it in the (y, z) plane
+        if (ix < res && iy > 0 && iz > 0 && iy < res && iz < res &&
+            inside !== (field[i0 + 1] < 0)) {
+          emitEdgeQuad(
+            cellAt(ix, iy-1, iz-1), cellAt(ix, iy, iz-1),
+            cellAt(ix, iy, iz), cellAt(ix, iy-1, iz), inside
+          );
+        }
+        // Y-edge: cells around it in the (z, x) plane
+        if (iy < res && ix > 0 && iz > 0 && ix < res && iz < res &&
+            inside !== (field[i0 + nx] < 0)) {
+          emitEdgeQuad(
+            cellAt(ix-1, iy, iz-1), cellAt(ix-1, iy, iz),
+            cellAt(ix, iy, iz), cellAt(ix, iy, iz-1), inside
+          );
+        }
+        // Z-edge: cells around it in the (x, y) plane
+        if (iz < res && ix > 0 && iy > 0 && ix < res && iy < res &&
+            inside !== (field[i0 + nx * ny] < 0)) {
+          emitEdgeQuad(
+            cellAt(ix-1, iy-1, iz), cellAt(ix, iy-1, iz),
+            cellAt(ix, iy, iz), cellAt(ix-1, iy, iz), inside
           );
         }
       }
@@ -582,10 +1983,40 @@ function sdfMesh(sdfFn, colorFn, bMin, bMax, resolution) {
   }
 }
 
+function _vertexDist2(a, b) {
+  var ax = _meshPositions[a*3] - _meshPositions[b*3];
+  var ay = _meshPositions[a*3+1] - _meshPositions[b*3+1];
+  var az = _meshPositions[a*3+2] - _meshPositions[b*3+2];
+  return ax*ax + ay*ay + az*az;
+}
+
+// Minimize the QEF |A x - b|^2 given its normal equations (AtA, Atb).
+// A small Tikhonov term keeps the solve stable when the tangent planes are
+// (nearly) parallel; well-constrained corners are barely affected.
+var QEF_REGULARIZATION = 0.01;
+function _solveQef(a00, a01, a02, a11, a12, a22, b0, b1, b2) {
+  a00 += QEF_REGULARIZATION; a11 += QEF_REGULARIZATION; a22 += QEF_REGULARIZATION;
+  // Cramer's rule on the symmetric 3x3 system
+  var c00 = a11*a22 - a12*a12;
+  var c01 = a02*a12 - a01*a22;
+  var c02 = a01*a12 - a02*a11;
+  var det = a00*c00 + a01*c01 + a02*c02;
+  if (Math.abs(det) < 1e-12) return [0, 0, 0];
+  var c11 = a00*a22 - a02*a02;
+  var c12 = a01*a02 - a00*a12;
+  var c22 = a00*a11 - a01*a01;
+  return [
+    (c00*b0 + c01*b1 + c02*b2) / det,
+    (c01*b0 + c11*b1 + c12*b2) / det,
+    (c02*b0 + c12*b1 + c22*b2) / det
+  ];
+}
+
 // =========================================================================
 // lathe() — Surface of Revolution
 // =========================================================================
 function lathe(cx,cy,cz, profile, segments, r,g,b, angleOffset) {
+  _setProgress("lathe", 0, 0);
   segments = segments || 16;
   angleOffset = angleOffset || 0;
   var pLen = profile.length;
@@ -599,32 +2030,145 @@ function lathe(cx,cy,cz, profile, segments, r,g,b, angleOffset) {
     sinA[i] = Math.sin(angle);
   }
 
+  // Bake UVs: u runs around the widest circumference, v along the profile
+  var maxR = 0, arc = [0];
+  for (var p = 0; p < pLen; p++) {
+    maxR = Math.max(maxR, Math.abs(profile[p][0]));
+    if (p > 0) {
+      var dr = profile[p][0] - profile[p-1][0], dy = profile[p][1] - profile[p-1][1];
+      arc[p] = arc[p-1] + Math.sqrt(dr*dr + dy*dy);
+    }
+  }
+  var uStep = 2 * Math.PI * maxR / segments;
+  var previousSource = _beginBakeSource("explicit", null);
+
   for (var p = 0; p < pLen - 1; p++) {
     var r0 = profile[p][0], y0 = cy + profile[p][1];
     var r1 = profile[p+1][0], y1 = cy + profile[p+1][1];
+    var v0 = arc[p], v1 = arc[p+1];
 
     for (var s = 0; s < segments; s++) {
       var bx0 = cx + r0 * cosA[s],   bz0 = cz + r0 * sinA[s];
       var bx1 = cx + r0 * cosA[s+1], bz1 = cz + r0 * sinA[s+1];
       var tx0 = cx + r1 * cosA[s],   tz0 = cz + r1 * sinA[s];
       var tx1 = cx + r1 * cosA[s+1], tz1 = cz + r1 * sinA[s+1];
+      var u0 = s * uStep, u1 = (s + 1) * uStep;
 
       if (r0 === 0) {
+        _setPendingUV((u0 + u1) / 2, v0, u1, v1, u0, v1);
         emitTriangle(cx,y0,cz, tx1,y1,tz1, tx0,y1,tz0, r,g,b);
       } else if (r1 === 0) {
+        _setPendingUV(u0, v0, u1, v0, (u0 + u1) / 2, v1);
         emitTriangle(bx0,y0,bz0, bx1,y0,bz1, cx,y1,cz, r,g,b);
       } else {
-        emitQuad(bx0,y0,bz0, bx1,y0,bz1, tx1,y1,tz1, tx0,y1,tz0, r,g,b);
+        _emitQuadUV(
+          [bx0,y0,bz0], [bx1,y0,bz1], [tx1,y1,tz1], [tx0,y1,tz0],
+          [u0,v0], [u1,v0], [u1,v1], [u0,v1], r,g,b
+        );
       }
     }
   }
+  _bakeSource = previousSource;
 }
 
-function extrudePath(profile, path, closed, r,g,b) {
+// =========================================================================
+// extrudePath() — Sweep a 2D profile along a 3D path
+// =========================================================================
+// options: { scale, radius, twist, caps }. scale and radius are numbers or
+// functions of t (0..1 along the path's length); scale multiplies the
+// profile (a number or [sx, sy]), radius resizes it so its widest point
+// sits at that distance from the path. twist is the total roll in radians
+// or a function of t returning the angle. caps closes both ends of a
+// closed profile.
+function extrudePath(profile, path, closed, r,g,b, options) {
+  _setProgress("extrudePath", 0, 0);
   var pLen = profile.length, pathLen = path.length;
   if (pLen < 2 || pathLen < 2) return;
+  options = options || {};
+
+  var frames = _pathFrames(path);
+  var normals = frames.normals, binormals = frames.binormals;
+
+  // Arc length along the path: drives t for the options and v for baking
+  var pv = [0];
+  for (var i = 1; i < pathLen; i++) {
+    var dx = path[i][0]-path[i-1][0], dy = path[i][1]-path[i-1][1], dz = path[i][2]-path[i-1][2];
+    pv[i] = pv[i-1] + Math.sqrt(dx*dx + dy*dy + dz*dz);
+  }
+  var totalLen = pv[pathLen-1] || 1;
+
+  var profileR = 0;
+  if (options.radius !== undefined) {
+    for (var j = 0; j < pLen; j++) {
+      profileR = Math.max(profileR, Math.sqrt(profile[j][0]*profile[j][0] + profile[j][1]*profile[j][1]));
+    }
+    profileR = profileR || 1;
+  }
+
+  var rings = [];
+  for (var i = 0; i < pathLen; i++) {
+    var t = pv[i] / totalLen;
+    var sx = 1, sy = 1;
+    if (options.scale !== undefined) {
+      var sc = _pathOption(options.scale, t, "scale");
+      if (Array.isArray(sc)) { sx = sc[0]; sy = sc[1]; } else { sx = sc; sy = sc; }
+    }
+    if (options.radius !== undefined) {
+      var rs = _pathOption(options.radius, t, "radius") / profileR;
+      sx *= rs; sy *= rs;
+    }
+    var tw = 0;
+    if (options.twist !== undefined) {
+      tw = typeof options.twist === "function" ? options.twist(t) : options.twist * t;
+    }
+    var cosT = Math.cos(tw), sinT = Math.sin(tw);
+
+    var ring = [];
+    var p = path[i], n = normals[i], bn = binormals[i];
+    for (var j = 0; j < pLen; j++) {
+      var qx = profile[j][0]*sx, qy = profile[j][1]*sy;
+      var px = qx*cosT - qy*sinT, py = qx*sinT + qy*cosT;
+      ring[j] = [p[0]+px*n[0]+py*bn[0], p[1]+px*n[1]+py*bn[1], p[2]+px*n[2]+py*bn[2]];
+    }
+    rings[i] = ring;
+  }
+
+  // Bake UVs: u runs around the profile, v along the path
+  var pu = [0];
+  for (var j = 1; j <= pLen; j++) {
+    var du = profile[j % pLen][0] - profile[j-1][0];
+    var dv = profile[j % pLen][1] - profile[j-1][1];
+    pu[j] = pu[j-1] + Math.sqrt(du*du + dv*dv);
+  }
+  var previousSource = _beginBakeSource("explicit", null);
+
+  for (var i = 0; i < pathLen-1; i++) {
+    var r0 = rings[i], r1 = rings[i+1];
+    var jMax = closed ? pLen : pLen - 1;
+    for (var j = 0; j < jMax; j++) {
+      var j1 = (j+1) % pLen;
+      _emitQuadUV(
+        r0[j], r0[j1], r1[j1], r1[j],
+        [pu[j],pv[i]], [pu[j+1],pv[i]], [pu[j+1],pv[i+1]], [pu[j],pv[i+1]],
+        r,g,b
+      );
+    }
+  }
+
+  // Caps: fan each end ring around its centre, wound to match the sides.
+  // They carry no explicit UVs, so baking box-projects them.
+  if (options.caps && closed && pLen >= 3) {
+    _capRing(rings[0], false, r,g,b);
+    _capRing(rings[pathLen-1], true, r,g,b);
+  }
+  _bakeSource = previousSource;
+}
 
-  // Compute tangents
+// Rotation-minimizing frames along a path (double reflection), so swept
+// profiles don't twist on their own
+function _pathFrames(path) {
+  var pathLen = path.length;
+  // Tangents by central differences
   var tangents = [];
   for (var i = 0; i < pathLen; i++) {
     var prev = i > 0 ? path[i-1] : path[i];
@@ -680,105 +2224,2553 @@ function extrudePath(profile, path, closed, r,g,b) {
       tj[0]*normals[i][1] - tj[1]*normals[i][0]
     ];
   }
+  return { tangents: tangents, normals: normals, binormals: binormals };
+}
 
-  var rings = [];
-  for (var i = 0; i < pathLen; i++) {
-    var ring = [];
-    var p = path[i], n = normals[i], b = binormals[i];
-    for (var j = 0; j < pLen; j++) {
-      var px = profile[j][0], py = profile[j][1];
-      ring[j] = [p[0]+px*n[0]+py*b[0], p[1]+px*n[1]+py*b[1], p[2]+px*n[2]+py*b[2]];
-    }
-    rings[i] = ring;
+function _pathOption(value, t, name) {
+  var v = typeof value === "function" ? value(t) : value;
+  if (typeof v !== "number" && !Array.isArray(v)) {
+    throw new Error("extrudePath: " + name + " must be a number or a function returning one");
   }
+  return v;
+}
 
-  for (var i = 0; i < pathLen-1; i++) {
-    var r0 = rings[i], r1 = rings[i+1];
-    var jMax = closed ? pLen : pLen - 1;
-    for (var j = 0; j < jMax; j++) {
-      var j1 = (j+1) % pLen;
-      emitQuad(
-        r0[j][0],r0[j][1],r0[j][2],
-        r0[j1][0],r0[j1][1],r0[j1][2],
-        r1[j1][0],r1[j1][1],r1[j1][2],
-        r1[j][0],r1[j][1],r1[j][2],
-        r,g,b
-      );
-    }
+function _capRing(ring, forward, r,g,b) {
+  var n = ring.length;
+  // A profile that repeats its first point to close the loop
+  var last = ring[n-1], first = ring[0];
+  if (Math.abs(last[0]-first[0]) + Math.abs(last[1]-first[1]) + Math.abs(last[2]-first[2]) < 1e-9) n--;
+  var cx = 0, cy = 0, cz = 0;
+  for (var j = 0; j < n; j++) { cx += ring[j][0]; cy += ring[j][1]; cz += ring[j][2]; }
+  cx /= n; cy /= n; cz /= n;
+  for (var j = 0; j < n; j++) {
+    var a = ring[j], c = ring[(j+1) % n];
+    if (forward) emitTriangle(cx,cy,cz, a[0],a[1],a[2], c[0],c[1],c[2], r,g,b);
+    else emitTriangle(cx,cy,cz, c[0],c[1],c[2], a[0],a[1],a[2], r,g,b);
   }
 }
 
-function grid(x0,z0, x1,z1, resX,resZ, heightFn, colorFn) {
-  var stepX = (x1-x0)/resX, stepZ = (z1-z0)/resZ;
-  var heights = [];
-  for (var i = 0; i <= resX; i++) {
-    heights[i] = [];
-    for (var j = 0; j <= resZ; j++) {
-      heights[i][j] = heightFn(x0+i*stepX, z0+j*stepZ);
-    }
+// =========================================================================
+// Path builders — point lists for extrudePath
+// =========================================================================
+
+// Smooth curve through every control point (centripetal Catmull-Rom, so no
+// cusps or loops on uneven spacing). samples = total points returned.
+// closed = true joins the last point back to the first.
+function catmullRom(points, samples, closed) {
+  var n = points.length;
+  if (n < 2) throw new Error("catmullRom: need at least 2 points");
+  var segs = closed ? n : n - 1;
+  samples = Math.max(2, Math.floor(samples || segs * 8 + 1));
+  var dims = points[0].length;
+
+  function at(i) {
+    if (closed) return points[((i % n) + n) % n];
+    if (i < 0) return points[0].map(function(v, d) { return 2*v - points[1][d]; });
+    if (i >= n) return points[n-1].map(function(v, d) { return 2*v - points[n-2][d]; });
+    return points[i];
   }
-  for (var i = 0; i < resX; i++) {
-    for (var j = 0; j < resZ; j++) {
-      var px = x0+i*stepX, pz = z0+j*stepZ;
-      var px1 = px+stepX, pz1 = pz+stepZ;
-      var h00 = heights[i][j], h10 = heights[i+1][j];
-      var h11 = heights[i+1][j+1], h01 = heights[i][j+1];
-      var col = colorFn ? colorFn(px+stepX/2, pz+stepZ/2) : [0.5,0.5,0.5];
-      emitQuad(
-        px,h00,pz, px,h01,pz1, px1,h11,pz1, px1,h10,pz,
-        col[0],col[1],col[2]
-      );
-    }
+  function knot(a, b) {
+    var d2 = 0;
+    for (var d = 0; d < dims; d++) d2 += (b[d]-a[d])*(b[d]-a[d]);
+    return Math.max(Math.sqrt(Math.sqrt(d2)), 1e-6);
   }
-}
 
-// --- Convenience helpers for common shapes ---
-// These reduce boilerplate for simple single-primitive meshes.
-
-function sphereMesh(cx, cy, cz, radius, r, g, b, res) {
-  res = res || 64;
-  var pad = radius * 1.3;
-  sdfMesh(
-    function(x, y, z) { return sdSphere(x - cx, y - cy, z - cz, radius); },
-    function() { return [r, g, b]; },
-    [cx - pad, cy - pad, cz - pad], [cx + pad, cy + pad, cz + pad], res
-  );
+  var out = [];
+  for (var s = 0; s < samples; s++) {
+    var u = s / (samples - 1) * segs;
+    var seg = Math.min(Math.floor(u), segs - 1);
+    var f = u - seg;
+    var p0 = at(seg-1), p1 = at(seg), p2 = at(seg+1), p3 = at(seg+2);
+    // Barry-Goldman pyramid over knots t0..t3
+    var t1 = knot(p0, p1), t2 = t1 + knot(p1, p2), t3 = t2 + knot(p2, p3);
+    var t = t1 + f * (t2 - t1);
+    var pt = [];
+    for (var d = 0; d < dims; d++) {
+      var a1 = (t1 - t) / t1 * p0[d] + t / t1 * p1[d];
+      var a2 = (t2 - t) / (t2 - t1) * p1[d] + (t - t1) / (t2 - t1) * p2[d];
+      var a3 = (t3 - t) / (t3 - t2) * p2[d] + (t - t2) / (t3 - t2) * p3[d];
+      var b1 = (t2 - t) / t2 * a1 + t / t2 * a2;
+      var b2 = (t3 - t) / (t3 - t1) * a2 + (t - t1) / (t3 - t1) * a3;
+      pt[d] = (t2 - t) / (t2 - t1) * b1 + (t - t1) / (t2 - t1) * b2;
+    }
+    out.push(pt);
+  }
+  return out;
 }
 
-function boxMesh(cx, cy, cz, sx, sy, sz, r, g, b, res) {
-  res = res || 64;
-  // Half-extents plus 30% padding for marching cubes bounds
-  var px = sx * 0.5 * 1.3, py = sy * 0.5 * 1.3, pz = sz * 0.5 * 1.3;
-  sdfMesh(
-    function(x, y, z) { return sdBox(x - cx, y - cy, z - cz, sx * 0.5, sy * 0.5, sz * 0.5); },
-    function() { return [r, g, b]; },
-    [cx - px, cy - py, cz - pz], [cx + px, cy + py, cz + pz], res
-  );
+// Bezier curve of any degree: starts at the first point, ends at the last,
+// pulled towards the ones in between. samples = total points returned.
+function bezierPath(points, samples) {
+  var n = points.length;
+  if (n < 2) throw new Error("bezierPath: need at least 2 points");
+  samples = Math.max(2, Math.floor(samples || 32));
+  var dims = points[0].length;
+  var out = [];
+  for (var s = 0; s < samples; s++) {
+    var t = s / (samples - 1);
+    // de Casteljau
+    var work = points.map(function(p) { return p.slice(); });
+    for (var k = n - 1; k > 0; k--) {
+      for (var i = 0; i < k; i++) {
+        for (var d = 0; d < dims; d++) work[i][d] += (work[i+1][d] - work[i][d]) * t;
+      }
+    }
+    out.push(work[0]);
+  }
+  return out;
 }
 
-function cylinderMesh(cx, cy, cz, radius, height, r, g, b, res) {
-  res = res || 64;
-  var padR = radius * 1.3, padH = height * 0.5 * 1.3;
-  sdfMesh(
-    function(x, y, z) { return sdCylinder(x - cx, y - cy, z - cz, radius, height * 0.5); },
-    function() { return [r, g, b]; },
-    [cx - padR, cy - padH, cz - padR], [cx + padR, cy + padH, cz + padR], res
-  );
+// Helix around a vertical axis through (cx, cz), rising from cy to
+// cy + height over turns revolutions. endRadius (default radius) tapers it
+// into a conical spiral — horns, shells, springs.
+function helixPath(cx,cy,cz, radius, height, turns, samples, endRadius) {
+  samples = Math.max(2, Math.floor(samples || Math.ceil(Math.abs(turns) * 32) + 1));
+  if (endRadius === undefined) endRadius = radius;
+  var out = [];
+  for (var s = 0; s < samples; s++) {
+    var t = s / (samples - 1);
+    var a = t * turns * Math.PI * 2;
+    var rad = radius + (endRadius - radius) * t;
+    out.push([cx + Math.cos(a) * rad, cy + height * t, cz + Math.sin(a) * rad]);
+  }
+  return out;
 }
 
-function torusMesh(cx, cy, cz, majorR, minorR, r, g, b, res) {
-  res = res || 64;
-  var padXZ = (majorR + minorR) * 1.3, padY = minorR * 1.3;
-  sdfMesh(
-    function(x, y, z) { return sdTorus(x - cx, y - cy, z - cz, majorR, minorR); },
-    function() { return [r, g, b]; },
-    [cx - padXZ, cy - padY, cz - padXZ], [cx + padXZ, cy + padY, cz + padXZ], res
-  );
-}
+// =========================================================================
+// loft() — Skin a surface through an ordered list of cross-sections
+// sections = [[[x,y,z], ...], ...], each a polyline (closed loop by
+// default). Every section is resampled by arc length to the same point
+// count and rotated to line up with the one before, so they may have
+// different shapes and point counts. options:
+//   samples  points per section after resampling (default: the most any
+//            section has)
+//   closed   false for open sheets (hull panels, awnings); default true
+//   steps    rings per gap between sections; > 1 curves smoothly through
+//            them (Catmull-Rom) instead of joining them with straight spans
+//   caps     close the first and last section (closed sections only)
+//   color    [r,g,b] or function(x,y,z) → [r,g,b]
+// Closed lofts are wound outward whatever the sections' winding.
+// =========================================================================
+function loft(sections, options) {
+  _setProgress("loft", 0, 0);
+  options = options || {};
+  if (!sections || sections.length < 2) throw new Error("loft: need at least 2 sections");
+  var closed = options.closed !== false;
+  var steps = Math.max(1, Math.floor(options.steps || 1));
+  var samples = options.samples;
+  if (!samples) {
+    samples = 0;
+    for (var s = 0; s < sections.length; s++) samples = Math.max(samples, sections[s].length);
+  }
+  samples = Math.max(closed ? 3 : 2, Math.floor(samples));
+  for (var s = 0; s < sections.length; s++) {
+    if (!sections[s] || sections[s].length < 2) {
+      throw new Error("loft: section " + s + " needs at least 2 points");
+    }
+  }
+  var color = options.color || [0.5, 0.5, 0.5];
+  var colorFn = typeof color === "function" ? color : null;
 
-self.onmessage = function(e) {
-  const { code, seed, sceneBounds, layerMetas } = e.data;
-  _seed = seed || 42;
+  // Resample, then line each section up with the previous one
+  var rings = [];
+  for (var s = 0; s < sections.length; s++) {
+    var ring = _resampleSection(sections[s], samples, closed);
+    if (s > 0) ring = _alignSection(ring, rings[s-1], closed);
+    rings.push(ring);
+  }
+
+  // In-between rings
+  if (steps > 1) {
+    var nSec = rings.length, dense = [];
+    for (var s = 0; s < nSec - 1; s++) {
+      var r0 = rings[Math.max(s-1, 0)], r1 = rings[s], r2 = rings[s+1], r3 = rings[Math.min(s+2, nSec-1)];
+      for (var k = 0; k < steps; k++) {
+        var t = k / steps, ring = [];
+        for (var j = 0; j < samples; j++) {
+          ring.push([
+            _catmullRomUniform(r0[j][0], r1[j][0], r2[j][0], r3[j][0], t),
+            _catmullRomUniform(r0[j][1], r1[j][1], r2[j][1], r3[j][1], t),
+            _catmullRomUniform(r0[j][2], r1[j][2], r2[j][2], r3[j][2], t)
+          ]);
+        }
+        dense.push(ring);
+      }
+    }
+    dense.push(rings[nSec-1]);
+    rings = dense;
+  }
+  var nRings = rings.length;
+  var cols = closed ? samples : samples - 1;
+
+  // Wind closed lofts outward: signed volume of the skin plus its end fans
+  var flip = false;
+  if (closed) {
+    var vol = 0;
+    for (var i = 0; i < nRings - 1; i++) {
+      for (var j = 0; j < samples; j++) {
+        var j1 = (j+1) % samples;
+        vol += _tetVolume(rings[i][j], rings[i][j1], rings[i+1][j1]);
+        vol += _tetVolume(rings[i][j], rings[i+1][j1], rings[i+1][j]);
+      }
+    }
+    var c0 = _ringCentroid(rings[0]), c1 = _ringCentroid(rings[nRings-1]);
+    for (var j = 0; j < samples; j++) {
+      var j1 = (j+1) % samples;
+      vol += _tetVolume(c0, rings[0][j1], rings[0][j]);
+      vol += _tetVolume(c1, rings[nRings-1][j], rings[nRings-1][j1]);
+    }
+    flip = vol < 0;
+  }
+
+  // Smooth normals: area-weighted face normals summed per vertex
+  var normals = [];
+  for (var i = 0; i < nRings; i++) {
+    normals[i] = [];
+    for (var j = 0; j < samples; j++) normals[i][j] = [0, 0, 0];
+  }
+  for (var i = 0; i < nRings - 1; i++) {
+    for (var j = 0; j < cols; j++) {
+      var j1 = (j+1) % samples;
+      var a = rings[i][j], b = rings[i][j1], c = rings[i+1][j1], d = rings[i+1][j];
+      // Diagonals of the quad: their cross product is twice its area normal
+      var ux = c[0]-a[0], uy = c[1]-a[1], uz = c[2]-a[2];
+      var vx = d[0]-b[0], vy = d[1]-b[1], vz = d[2]-b[2];
+      var nx = uy*vz - uz*vy, ny = uz*vx - ux*vz, nz = ux*vy - uy*vx;
+      if (flip) { nx = -nx; ny = -ny; nz = -nz; }
+      var quad = [normals[i][j], normals[i][j1], normals[i+1][j1], normals[i+1][j]];
+      for (var k = 0; k < 4; k++) { quad[k][0] += nx; quad[k][1] += ny; quad[k][2] += nz; }
+    }
+  }
+
+  // Bake UVs: u runs around the sections, v across them
+  var perimeter = 0, across = [0];
+  for (var i = 0; i < nRings; i++) perimeter += _polylineLength(rings[i], closed);
+  perimeter /= nRings;
+  var prevC = _ringCentroid(rings[0]);
+  for (var i = 1; i < nRings; i++) {
+    var ci = _ringCentroid(rings[i]);
+    across[i] = across[i-1] + Math.sqrt(
+      (ci[0]-prevC[0])*(ci[0]-prevC[0]) + (ci[1]-prevC[1])*(ci[1]-prevC[1]) + (ci[2]-prevC[2])*(ci[2]-prevC[2])
+    );
+    prevC = ci;
+  }
+  var uStep = perimeter / cols;
+  var previousSource = _beginBakeSource("explicit", null);
+
+  _hasCustomNormals = true;
+  var vidx = [];
+  for (var i = 0; i < nRings; i++) {
+    vidx[i] = [];
+    for (var j = 0; j < samples; j++) {
+      var p = rings[i][j], n = normals[i][j];
+      var col = colorFn ? colorFn(p[0], p[1], p[2]) : color;
+      var px = p[0], py = p[1], pz = p[2];
+      var nLen = Math.sqrt(n[0]*n[0] + n[1]*n[1] + n[2]*n[2]) || 1;
+      var nx = n[0]/nLen, ny = n[1]/nLen, nz = n[2]/nLen;
+      if (!_identityTransform) {
+        _toWorldNormal(nx, ny, nz); nx = _wx; ny = _wy; nz = _wz;
+        _toWorld(px, py, pz); px = _wx; py = _wy; pz = _wz;
+      }
+      vidx[i][j] = _pushVertex(px, py, pz, nx, ny, nz, col[0], col[1], col[2]);
+    }
+  }
+  for (var i = 0; i < nRings - 1; i++) {
+    for (var j = 0; j < cols; j++) {
+      var j1 = (j+1) % samples;
+      var a = vidx[i][j], b = vidx[i][j1], c = vidx[i+1][j1], d = vidx[i+1][j];
+      var u0 = j * uStep, u1 = (j+1) * uStep, v0 = across[i], v1 = across[i+1];
+      if (flip) {
+        _setPendingUV(u0, v0, u1, v1, u1, v0);
+        _pushTriangle(a, c, b);
+        _setPendingUV(u0, v0, u0, v1, u1, v1);
+        _pushTriangle(a, d, c);
+      } else {
+        _setPendingUV(u0, v0, u1, v0, u1, v1);
+        _pushTriangle(a, b, c);
+        _setPendingUV(u0, v0, u1, v1, u0, v1);
+        _pushTriangle(a, c, d);
+      }
+    }
+  }
+
+  // Flat caps fanned from each end's centre; baking box-projects them
+  if (options.caps && closed) {
+    var ends = [[rings[0], !flip], [rings[nRings-1], flip]];
+    for (var e = 0; e < 2; e++) {
+      var ring = ends[e][0], reverse = ends[e][1];
+      var c = _ringCentroid(ring);
+      var cc = colorFn ? colorFn(c[0], c[1], c[2]) : color;
+      for (var j = 0; j < samples; j++) {
+        var a = ring[j], b = ring[(j+1) % samples];
+        if (reverse) emitTriangle(c[0],c[1],c[2], b[0],b[1],b[2], a[0],a[1],a[2], cc[0],cc[1],cc[2]);
+        else emitTriangle(c[0],c[1],c[2], a[0],a[1],a[2], b[0],b[1],b[2], cc[0],cc[1],cc[2]);
+      }
+    }
+  }
+  _bakeSource = previousSource;
+}
+
+function _polylineLength(points, closed) {
+  var len = 0, n = points.length;
+  for (var i = closed ? 0 : 1; i < n; i++) {
+    var a = points[(i + n - 1) % n], b = points[i];
+    len += Math.sqrt((b[0]-a[0])*(b[0]-a[0]) + (b[1]-a[1])*(b[1]-a[1]) + (b[2]-a[2])*(b[2]-a[2]));
+  }
+  return len;
+}
+
+// Evenly spaced points along a section (by arc length)
+function _resampleSection(points, count, closed) {
+  var n = points.length;
+  var last = points[n-1], first = points[0];
+  // Drop a repeated first point that closes the loop explicitly
+  if (closed && n > 2 && last[0] === first[0] && last[1] === first[1] && last[2] === first[2]) n--;
+  var pts = points.slice(0, n);
+  var total = _polylineLength(pts, closed);
+  var segs = closed ? n : n - 1;
+  var step = total / (closed ? count : count - 1);
+  var out = [], seg = 0, segStart = 0;
+  for (var k = 0; k < count; k++) {
+    var target = Math.min(k * step, total);
+    var a, b, segLen;
+    while (true) {
+      a = pts[seg]; b = pts[(seg + 1) % n];
+      segLen = Math.sqrt((b[0]-a[0])*(b[0]-a[0]) + (b[1]-a[1])*(b[1]-a[1]) + (b[2]-a[2])*(b[2]-a[2]));
+      if (segStart + segLen >= target || seg === segs - 1) break;
+      segStart += segLen;
+      seg++;
+    }
+    var f = segLen > 0 ? Math.max(0, Math.min(1, (target - segStart) / segLen)) : 0;
+    out.push([a[0] + (b[0]-a[0])*f, a[1] + (b[1]-a[1])*f, a[2] + (b[2]-a[2])*f]);
+  }
+  return out;
+}
+
+// Rotate (and if needed reverse) a closed ring so its points pair up with
+// the previous ring's with the least total travel
+function _alignSection(ring, prev, closed) {
+  if (!closed) return ring;
+  var n = ring.length, best = Infinity, bestShift = 0, bestRev = false;
+  var reversed = ring.slice().reverse();
+  for (var rev = 0; rev < 2; rev++) {
+    var r = rev ? reversed : ring;
+    for (var shift = 0; shift < n; shift++) {
+      var cost = 0;
+      for (var j = 0; j < n && cost < best; j++) {
+        var p = r[(j + shift) % n], q = prev[j];
+        cost += (p[0]-q[0])*(p[0]-q[0]) + (p[1]-q[1])*(p[1]-q[1]) + (p[2]-q[2])*(p[2]-q[2]);
+      }
+      if (cost < best) { best = cost; bestShift = shift; bestRev = rev === 1; }
+    }
+  }
+  var src = bestRev ? reversed : ring, out = [];
+  for (var j = 0; j < n; j++) out.push(src[(j + bestShift) % n]);
+  return out;
+}
+
+function _ringCentroid(ring) {
+  var x = 0, y = 0, z = 0, n = ring.length;
+  for (var j = 0; j < n; j++) { x += ring[j][0]; y += ring[j][1]; z += ring[j][2]; }
+  return [x / n, y / n, z / n];
+}
+
+// Signed volume of the tetrahedron (origin, a, b, c)
+function _tetVolume(a, b, c) {
+  return (a[0]*(b[1]*c[2] - b[2]*c[1]) - a[1]*(b[0]*c[2] - b[2]*c[0]) + a[2]*(b[0]*c[1] - b[1]*c[0])) / 6;
+}
+
+function _catmullRomUniform(p0, p1, p2, p3, t) {
+  var t2 = t*t, t3 = t2*t;
+  return 0.5 * (2*p1 + (p2 - p0)*t + (2*p0 - 5*p1 + 4*p2 - p3)*t2 + (3*p1 - p0 - 3*p2 + p3)*t3);
+}
+
+function grid(x0,z0, x1,z1, resX,resZ, heightFn, colorFn) {
+  _setProgress("grid", 0, 0);
+  var previousSource = _beginBakeSource("planar", colorFn);
+  var stepX = (x1-x0)/resX, stepZ = (z1-z0)/resZ;
+  var heightmap = heightFn instanceof Heightmap ? heightFn : null;
+  // Saved for later layers only where it maps straight to world space: a
+  // translation is baked into a copy, any other transform skips it
+  var m = _matrix;
+  if (heightmap && !_definingInstance &&
+      m[0] === 1 && m[1] === 0 && m[2] === 0 &&
+      m[4] === 0 && m[5] === 1 && m[6] === 0 &&
+      m[8] === 0 && m[9] === 0 && m[10] === 1) {
+    _layerHeightmap = _identityTransform ? heightmap : new Heightmap(
+      heightmap.x0 + m[3], heightmap.z0 + m[11], heightmap.x1 + m[3], heightmap.z1 + m[11],
+      heightmap.resX, heightmap.resZ,
+      heightmap.data.map(function(h) { return h + m[7]; })
+    );
+  }
+  var heights = [];
+  for (var i = 0; i <= resX; i++) {
+    heights[i] = [];
+    for (var j = 0; j <= resZ; j++) {
+      var hx = x0+i*stepX, hz = z0+j*stepZ;
+      heights[i][j] = heightmap ? heightmap.sample(hx, hz) : heightFn(hx, hz);
+    }
+  }
+
+  // One shared vertex per grid point, with a smooth normal from the
+  // neighbouring heights (central differences, one-sided at the borders)
+  _hasCustomNormals = true;
+  var vidx = [];
+  for (var i = 0; i <= resX; i++) {
+    vidx[i] = [];
+    var iPrev = Math.max(i-1, 0), iNext = Math.min(i+1, resX);
+    for (var j = 0; j <= resZ; j++) {
+      var jPrev = Math.max(j-1, 0), jNext = Math.min(j+1, resZ);
+      var slopeX = (heights[iNext][j] - heights[iPrev][j]) / ((iNext-iPrev) * stepX);
+      var slopeZ = (heights[i][jNext] - heights[i][jPrev]) / ((jNext-jPrev) * stepZ);
+      var nLen = Math.sqrt(slopeX*slopeX + 1 + slopeZ*slopeZ);
+      var px = x0+i*stepX, py = heights[i][j], pz = z0+j*stepZ;
+      var col = colorFn ? colorFn(px, pz) : [0.5,0.5,0.5];
+      var gnx = -slopeX/nLen, gny = 1/nLen, gnz = -slopeZ/nLen;
+      if (!_identityTransform) {
+        _toWorldNormal(gnx, gny, gnz); gnx = _wx; gny = _wy; gnz = _wz;
+        _toWorld(px, py, pz); px = _wx; py = _wy; pz = _wz;
+      }
+      vidx[i][j] = _pushVertex(px, py, pz, gnx, gny, gnz, col[0], col[1], col[2]);
+    }
+  }
+  for (var i = 0; i < resX; i++) {
+    for (var j = 0; j < resZ; j++) {
+      var v00 = vidx[i][j], v10 = vidx[i+1][j];
+      var v11 = vidx[i+1][j+1], v01 = vidx[i][j+1];
+      _pushTriangle(v00, v01, v11);
+      _pushTriangle(v00, v11, v10);
+    }
+  }
+  _bakeSource = previousSource;
+}
+
+// --- Convenience helpers for common shapes ---
+// These reduce boilerplate for simple single-primitive meshes.
+
+function sphereMesh(cx, cy, cz, radius, r, g, b, res) {
+  res = res || 64;
+  var pad = radius * 1.3;
+  sdfMesh(
+    function(x, y, z) { return sdSphere(x - cx, y - cy, z - cz, radius); },
+    function() { return [r, g, b]; },
+    [cx - pad, cy - pad, cz - pad], [cx + pad, cy + pad, cz + pad], res
+  );
+}
+
+function boxMesh(cx, cy, cz, sx, sy, sz, r, g, b, res) {
+  res = res || 64;
+  // Half-extents plus 30% padding for marching cubes bounds
+  var px = sx * 0.5 * 1.3, py = sy * 0.5 * 1.3, pz = sz * 0.5 * 1.3;
+  sdfMesh(
+    function(x, y, z) { return sdBox(x - cx, y - cy, z - cz, sx * 0.5, sy * 0.5, sz * 0.5); },
+    function() { return [r, g, b]; },
+    [cx - px, cy - py, cz - pz], [cx + px, cy + py, cz + pz], res
+  );
+}
+
+function cylinderMesh(cx, cy, cz, radius, height, r, g, b, res) {
+  res = res || 64;
+  var padR = radius * 1.3, padH = height * 0.5 * 1.3;
+  sdfMesh(
+    function(x, y, z) { return sdCylinder(x - cx, y - cy, z - cz, radius, height * 0.5); },
+    function() { return [r, g, b]; },
+    [cx - padR, cy - padH, cz - padR], [cx + padR, cy + padH, cz + padR], res
+  );
+}
+
+function torusMesh(cx, cy, cz, majorR, minorR, r, g, b, res) {
+  res = res || 64;
+  var padXZ = (majorR + minorR) * 1.3, padY = minorR * 1.3;
+  sdfMesh(
+    function(x, y, z) { return sdTorus(x - cx, y - cy, z - cz, majorR, minorR); },
+    function() { return [r, g, b]; },
+    [cx - padXZ, cy - padY, cz - padXZ], [cx + padXZ, cy + padY, cz + padXZ], res
+  );
+}
+
+// =========================================================================
+// Heightmap — a sampled terrain surface that later layers can reuse
+// Heights sit on the (resX+1) x (resZ+1) points grid() samples over the
+// same bounds, stored row by row along z. sample() interpolates bilinearly
+// and clamps to the edge outside the bounds. The last heightmap a layer
+// meshes with grid() under no transform (or only a translation, baked in)
+// is saved with it as LAYERS[id].heightmap.
+// =========================================================================
+var _layerHeightmap = null;
+
+function Heightmap(x0, z0, x1, z1, resX, resZ, data) {
+  this.x0 = x0; this.z0 = z0; this.x1 = x1; this.z1 = z1;
+  this.resX = resX; this.resZ = resZ;
+  this.data = data || new Float32Array((resX + 1) * (resZ + 1));
+}
+
+Heightmap.fromFunction = function(x0, z0, x1, z1, resX, resZ, heightFn) {
+  if (typeof heightFn !== "function") {
+    throw new Error("Heightmap.fromFunction: heightFn must be a function (x, z) returning a height");
+  }
+  resX = Math.max(1, Math.floor(resX)); resZ = Math.max(1, Math.floor(resZ));
+  var hm = new Heightmap(x0, z0, x1, z1, resX, resZ);
+  var stepX = (x1-x0)/resX, stepZ = (z1-z0)/resZ;
+  for (var j = 0; j <= resZ; j++) {
+    for (var i = 0; i <= resX; i++) {
+      hm.data[j*(resX+1) + i] = heightFn(x0+i*stepX, z0+j*stepZ);
+    }
+  }
+  return hm;
+};
+
+Heightmap.prototype.sample = function(x, z) {
+  var fx = Math.max(0, Math.min(this.resX, (x - this.x0) / (this.x1 - this.x0) * this.resX));
+  var fz = Math.max(0, Math.min(this.resZ, (z - this.z0) / (this.z1 - this.z0) * this.resZ));
+  var i = Math.min(Math.floor(fx), this.resX - 1), j = Math.min(Math.floor(fz), this.resZ - 1);
+  var tx = fx - i, tz = fz - j, w = this.resX + 1, d = this.data, k = j*w + i;
+  return (d[k]*(1-tx) + d[k+1]*tx)*(1-tz) + (d[k+w]*(1-tx) + d[k+w+1]*tx)*tz;
+};
+
+// Unit surface normal from central differences one cell apart
+Heightmap.prototype.normalAt = function(x, z) {
+  var hx = (this.x1 - this.x0) / this.resX, hz = (this.z1 - this.z0) / this.resZ;
+  var slopeX = (this.sample(x+hx, z) - this.sample(x-hx, z)) / (2*hx);
+  var slopeZ = (this.sample(x, z+hz) - this.sample(x, z-hz)) / (2*hz);
+  var len = Math.sqrt(slopeX*slopeX + 1 + slopeZ*slopeZ);
+  return [-slopeX/len, 1/len, -slopeZ/len];
+};
+
+// Erodes in place and returns the heightmap, so calls chain.
+// hydraulic: iterations rain droplets that carve channels and fill valleys.
+// thermal: iterations passes slumping slopes steeper than talus (rise/run).
+Heightmap.prototype.erode = function(options) {
+  options = options || {};
+  var type = options.type || "hydraulic";
+  if (type === "hydraulic") _erodeHydraulic(this, options);
+  else if (type === "thermal") _erodeThermal(this, options);
+  else throw new Error('Heightmap.erode: unknown type "' + type + '" (expected "hydraulic" or "thermal")');
+  return this;
+};
+
+var _hgHeight = 0, _hgX = 0, _hgZ = 0;
+
+// Bilinear height and gradient at (px, pz) in cell coordinates
+function _heightGradient(h, w, px, pz) {
+  var i = Math.floor(px), j = Math.floor(pz), tx = px - i, tz = pz - j, k = j*w + i;
+  var a = h[k], b = h[k+1], c = h[k+w], d = h[k+w+1];
+  _hgX = (b-a)*(1-tz) + (d-c)*tz;
+  _hgZ = (c-a)*(1-tx) + (d-b)*tx;
+  _hgHeight = a*(1-tx)*(1-tz) + b*tx*(1-tz) + c*(1-tx)*tz + d*tx*tz;
+}
+
+// Droplet erosion after Hans Beyer (2015). Heights are rescaled to 0..1
+// while it runs, so the constants carve the same relative depth whatever
+// the terrain's world height.
+function _erodeHydraulic(hm, options) {
+  var INERTIA = 0.05, CAPACITY = 4, MIN_CAPACITY = 0.01, ERODE = 0.05, DEPOSIT = 0.3;
+  var EVAPORATE = 0.01, GRAVITY = 4, LIFETIME = 30, RADIUS = 2, SLOPE = 0.01;
+  var w = hm.resX + 1, rows = hm.resZ + 1, n = w * rows;
+  var slope = 0, lo = Infinity;
+  for (var j = 0; j < rows; j++) {
+    for (var i = 0; i < w; i++) {
+      var k = j*w + i;
+      lo = Math.min(lo, hm.data[k]);
+      if (i > 0) slope += Math.abs(hm.data[k] - hm.data[k-1]);
+      if (j > 0) slope += Math.abs(hm.data[k] - hm.data[k-w]);
+    }
+  }
+  slope /= 2*n - w - rows;
+  if (!(slope > 0)) return;
+  var unit = slope / SLOPE;
+  var h = new Float32Array(n);
+  for (var k = 0; k < n; k++) h[k] = (hm.data[k] - lo) / unit;
+  var drops = options.iterations === undefined ? n : Math.floor(options.iterations);
+  var rnd = _seededRandom(options.seed);
+
+  for (var d = 0; d < drops; d++) {
+    var px = rnd() * (w - 1), pz = rnd() * (rows - 1);
+    var dx = 0, dz = 0, speed = 1, water = 1, sediment = 0;
+    for (var life = 0; life < LIFETIME; life++) {
+      var ci = Math.floor(px), cj = Math.floor(pz), tx = px - ci, tz = pz - cj;
+      _heightGradient(h, w, px, pz);
+      var h0 = _hgHeight;
+      dx = dx*INERTIA - _hgX*(1 - INERTIA);
+      dz = dz*INERTIA - _hgZ*(1 - INERTIA);
+      var len = Math.sqrt(dx*dx + dz*dz);
+      if (len < 1e-9) {
+        var a = rnd() * Math.PI * 2;
+        dx = Math.cos(a); dz = Math.sin(a);
+      } else {
+        dx /= len; dz /= len;
+      }
+      var ox = px, oz = pz;
+      px += dx; pz += dz;
+      if (px < 0 || pz < 0 || px >= w - 1 || pz >= rows - 1) break;
+      _heightGradient(h, w, px, pz);
+      var dh = _hgHeight - h0;
+      var capacity = Math.max(-dh * speed * water * CAPACITY, MIN_CAPACITY);
+      if (sediment > capacity || dh > 0) {
+        // Uphill: fill the pit behind; otherwise drop the excess
+        var drop = dh > 0 ? Math.min(dh, sediment) : (sediment - capacity) * DEPOSIT;
+        sediment -= drop;
+        var k = cj*w + ci;
+        h[k] += drop*(1-tx)*(1-tz); h[k+1] += drop*tx*(1-tz);
+        h[k+w] += drop*(1-tx)*tz; h[k+w+1] += drop*tx*tz;
+      } else if (ox > RADIUS && oz > RADIUS && ox < w - 1 - RADIUS && oz < rows - 1 - RADIUS) {
+        // Droplets leaving the map take their sediment with them, so the
+        // border is left alone instead of sinking into a trench
+        var take = Math.min((capacity - sediment) * ERODE, -dh);
+        _erodeBrush(h, w, ox, oz, take, RADIUS);
+        sediment += take;
+      }
+      speed = Math.sqrt(Math.max(0, speed*speed - dh*GRAVITY));
+      water *= 1 - EVAPORATE;
+    }
+  }
+  for (var k = 0; k < n; k++) hm.data[k] = lo + h[k] * unit;
+}
+
+// Removes amount from the points within radius of (cx, cz), weighted by
+// distance so droplets carve smooth channels instead of pits
+function _erodeBrush(h, w, cx, cz, amount, radius) {
+  var i0 = Math.ceil(cx - radius), i1 = Math.floor(cx + radius);
+  var j0 = Math.ceil(cz - radius), j1 = Math.floor(cz + radius);
+  var total = 0;
+  for (var j = j0; j <= j1; j++) {
+    for (var i = i0; i <= i1; i++) {
+      total += Math.max(0, radius - Math.sqrt((i-cx)*(i-cx) + (j-cz)*(j-cz)));
+    }
+  }
+  if (total <= 0) return;
+  for (var j = j0; j <= j1; j++) {
+    for (var i = i0; i <= i1; i++) {
+      var wt = Math.max(0, radius - Math.sqrt((i-cx)*(i-cx) + (j-cz)*(j-cz)));
+      if (wt > 0) h[j*w + i] -= amount * wt / total;
+    }
+  }
+}
+
+// Talus erosion (Musgrave 1989): material above the stable slope slides
+// to the lower neighbours in proportion to how far each one exceeds it
+function _erodeThermal(hm, options) {
+  var iterations = options.iterations === undefined ? 50 : Math.floor(options.iterations);
+  var talus = options.talus === undefined ? 0.6 : options.talus;
+  var w = hm.resX + 1, rows = hm.resZ + 1, h = hm.data;
+  var stepX = (hm.x1 - hm.x0) / hm.resX, stepZ = (hm.z1 - hm.z0) / hm.resZ;
+  var offI = [1, -1, 0, 0, 1, 1, -1, -1], offJ = [0, 0, 1, -1, 1, -1, 1, -1];
+  var limit = [];
+  for (var o = 0; o < 8; o++) {
+    limit[o] = talus * Math.sqrt(offI[o]*offI[o]*stepX*stepX + offJ[o]*offJ[o]*stepZ*stepZ);
+  }
+  var delta = new Float32Array(w * rows), excess = [];
+  for (var it = 0; it < iterations; it++) {
+    delta.fill(0);
+    for (var j = 0; j < rows; j++) {
+      for (var i = 0; i < w; i++) {
+        var k = j*w + i, total = 0, most = 0;
+        for (var o = 0; o < 8; o++) {
+          var ni = i + offI[o], nj = j + offJ[o];
+          excess[o] = 0;
+          if (ni < 0 || nj < 0 || ni >= w || nj >= rows) continue;
+          var e = h[k] - h[nj*w + ni] - limit[o];
+          if (e > 0) { excess[o] = e; total += e; if (e > most) most = e; }
+        }
+        if (total <= 0) continue;
+        // Moving half the steepest excess settles without overshooting
+        var move = most * 0.5;
+        delta[k] -= move;
+        for (var o = 0; o < 8; o++) {
+          if (excess[o] > 0) delta[(j + offJ[o])*w + i + offI[o]] += move * excess[o] / total;
+        }
+      }
+    }
+    for (var k = 0; k < h.length; k++) h[k] += delta[k];
+  }
+}
+
+// =========================================================================
+// Layer queries — LAYERS[id].raycast / heightAt / closestPoint / sdf
+// Earlier layers arrive as world-space triangles. Each one builds a BVH on
+// its first query: nodes split at the middle of their centroid bounds on
+// the longest axis, down to 4 triangles per leaf.
+// =========================================================================
+var _BVH_LEAF = 4;
+var _hitT = 0, _hitTri = -1;
+var _cpX = 0, _cpY = 0, _cpZ = 0;
+
+function _buildBVH(pos, idx) {
+  var n = idx.length / 3;
+  var order = new Uint32Array(n), cen = new Float32Array(n * 3);
+  for (var t = 0; t < n; t++) {
+    order[t] = t;
+    var a = idx[t*3]*3, b = idx[t*3+1]*3, c = idx[t*3+2]*3;
+    for (var k = 0; k < 3; k++) cen[t*3+k] = (pos[a+k] + pos[b+k] + pos[c+k]) / 3;
+  }
+  var bvh = { pos: pos, idx: idx, order: order, bmin: [], bmax: [], left: [], right: [], start: [], count: [] };
+  if (n > 0) _bvhNode(bvh, cen, 0, n, 0);
+  return bvh;
+}
+
+function _bvhNode(bvh, cen, lo, hi, depth) {
+  var node = bvh.start.length;
+  var mn = [Infinity, Infinity, Infinity], mx = [-Infinity, -Infinity, -Infinity];
+  var cmn = [Infinity, Infinity, Infinity], cmx = [-Infinity, -Infinity, -Infinity];
+  for (var t = lo; t < hi; t++) {
+    var tri = bvh.order[t];
+    for (var v = 0; v < 3; v++) {
+      var p = bvh.idx[tri*3+v]*3;
+      for (var k = 0; k < 3; k++) {
+        var x = bvh.pos[p+k];
+        if (x < mn[k]) mn[k] = x;
+        if (x > mx[k]) mx[k] = x;
+      }
+    }
+    for (var k = 0; k < 3; k++) {
+      var c = cen[tri*3+k];
+      if (c < cmn[k]) cmn[k] = c;
+      if (c > cmx[k]) cmx[k] = c;
+    }
+  }
+  bvh.bmin.push(mn); bvh.bmax.push(mx);
+  bvh.start.push(lo); bvh.count.push(hi - lo);
+  bvh.left.push(-1); bvh.right.push(-1);
+  if (hi - lo <= _BVH_LEAF) return node;
+
+  var axis = 0;
+  if (cmx[1]-cmn[1] > cmx[axis]-cmn[axis]) axis = 1;
+  if (cmx[2]-cmn[2] > cmx[axis]-cmn[axis]) axis = 2;
+  var mid = lo;
+  // Deep chains (far outliers) fall back to halving by count
+  if (depth < 48) {
+    var split = (cmn[axis] + cmx[axis]) / 2, j = hi - 1;
+    while (mid <= j) {
+      if (cen[bvh.order[mid]*3+axis] < split) { mid++; continue; }
+      var tmp = bvh.order[mid]; bvh.order[mid] = bvh.order[j]; bvh.order[j] = tmp;
+      j--;
+    }
+  }
+  // Every centroid on one side (coincident triangles): halve by count
+  if (mid === lo || mid === hi) mid = (lo + hi) >> 1;
+  bvh.count[node] = 0;
+  bvh.left[node] = _bvhNode(bvh, cen, lo, mid, depth + 1);
+  bvh.right[node] = _bvhNode(bvh, cen, mid, hi, depth + 1);
+  return node;
+}
+
+// Möller–Trumbore: distance along the ray to triangle tri, or -1 for a
+// miss. Triangles are hit from both sides.
+function _rayTriangle(pos, idx, tri, ox, oy, oz, dx, dy, dz) {
+  var a = idx[tri*3]*3, b = idx[tri*3+1]*3, c = idx[tri*3+2]*3;
+  var e1x = pos[b]-pos[a], e1y = pos[b+1]-pos[a+1], e1z = pos[b+2]-pos[a+2];
+  var e2x = pos[c]-pos[a], e2y = pos[c+1]-pos[a+1], e2z = pos[c+2]-pos[a+2];
+  var px = dy*e2z - dz*e2y, py = dz*e2x - dx*e2z, pz = dx*e2y - dy*e2x;
+  var det = e1x*px + e1y*py + e1z*pz;
+  if (Math.abs(det) < 1e-14) return -1;
+  var inv = 1/det;
+  var sx = ox-pos[a], sy = oy-pos[a+1], sz = oz-pos[a+2];
+  var u = (sx*px + sy*py + sz*pz) * inv;
+  if (u < 0 || u > 1) return -1;
+  var qx = sy*e1z - sz*e1y, qy = sz*e1x - sx*e1z, qz = sx*e1y - sy*e1x;
+  var v = (dx*qx + dy*qy + dz*qz) * inv;
+  if (v < 0 || u + v > 1) return -1;
+  var d = (e2x*qx + e2y*qy + e2z*qz) * inv;
+  return d > 1e-7 ? d : -1;
+}
+
+// Slab test: does the ray reach the node's box within [0, maxT]? On an
+// axis the ray runs parallel to (infinite inverse) the origin just has to
+// lie inside the slab: an origin on the box face would give 0 * Infinity.
+function _rayHitsBox(mn, mx, ox, oy, oz, ix, iy, iz, maxT) {
+  var tmin = 0, tmax = maxT, t1, t2;
+  if (isFinite(ix)) {
+    t1 = (mn[0]-ox)*ix; t2 = (mx[0]-ox)*ix;
+    tmin = Math.max(tmin, Math.min(t1, t2)); tmax = Math.min(tmax, Math.max(t1, t2));
+  } else if (ox < mn[0] || ox > mx[0]) return false;
+  if (isFinite(iy)) {
+    t1 = (mn[1]-oy)*iy; t2 = (mx[1]-oy)*iy;
+    tmin = Math.max(tmin, Math.min(t1, t2)); tmax = Math.min(tmax, Math.max(t1, t2));
+  } else if (oy < mn[1] || oy > mx[1]) return false;
+  if (isFinite(iz)) {
+    t1 = (mn[2]-oz)*iz; t2 = (mx[2]-oz)*iz;
+    tmin = Math.max(tmin, Math.min(t1, t2)); tmax = Math.min(tmax, Math.max(t1, t2));
+  } else if (oz < mn[2] || oz > mx[2]) return false;
+  return tmin <= tmax;
+}
+
+// Nearest hit within maxT, left in _hitT / _hitTri (-1 for a miss)
+function _bvhRaycast(bvh, ox, oy, oz, dx, dy, dz, maxT) {
+  _hitT = maxT; _hitTri = -1;
+  if (bvh.start.length === 0) return;
+  var ix = 1/dx, iy = 1/dy, iz = 1/dz;
+  var stack = [0];
+  while (stack.length) {
+    var node = stack.pop();
+    if (!_rayHitsBox(bvh.bmin[node], bvh.bmax[node], ox, oy, oz, ix, iy, iz, _hitT)) continue;
+    if (bvh.count[node] === 0) {
+      stack.push(bvh.left[node], bvh.right[node]);
+      continue;
+    }
+    for (var t = bvh.start[node], end = t + bvh.count[node]; t < end; t++) {
+      var tri = bvh.order[t];
+      var d = _rayTriangle(bvh.pos, bvh.idx, tri, ox, oy, oz, dx, dy, dz);
+      if (d > 0 && d < _hitT) { _hitT = d; _hitTri = tri; }
+    }
+  }
+}
+
+// Number of triangles the whole ray passes through
+function _bvhCrossings(bvh, ox, oy, oz, dx, dy, dz) {
+  if (bvh.start.length === 0) return 0;
+  var ix = 1/dx, iy = 1/dy, iz = 1/dz, hits = 0;
+  var stack = [0];
+  while (stack.length) {
+    var node = stack.pop();
+    if (!_rayHitsBox(bvh.bmin[node], bvh.bmax[node], ox, oy, oz, ix, iy, iz, Infinity)) continue;
+    if (bvh.count[node] === 0) {
+      stack.push(bvh.left[node], bvh.right[node]);
+      continue;
+    }
+    for (var t = bvh.start[node], end = t + bvh.count[node]; t < end; t++) {
+      if (_rayTriangle(bvh.pos, bvh.idx, bvh.order[t], ox, oy, oz, dx, dy, dz) > 0) hits++;
+    }
+  }
+  return hits;
+}
+
+// Closest point on triangle abc to p (Ericson, Real-Time Collision
+// Detection 5.1.5), left in _cpX / _cpY / _cpZ
+function _closestOnTriangle(pos, a, b, c, px, py, pz) {
+  var ax = pos[a], ay = pos[a+1], az = pos[a+2];
+  var abx = pos[b]-ax, aby = pos[b+1]-ay, abz = pos[b+2]-az;
+  var acx = pos[c]-ax, acy = pos[c+1]-ay, acz = pos[c+2]-az;
+  var apx = px-ax, apy = py-ay, apz = pz-az;
+  var d1 = abx*apx + aby*apy + abz*apz, d2 = acx*apx + acy*apy + acz*apz;
+  if (d1 <= 0 && d2 <= 0) { _cpX = ax; _cpY = ay; _cpZ = az; return; }
+  var bpx = px-pos[b], bpy = py-pos[b+1], bpz = pz-pos[b+2];
+  var d3 = abx*bpx + aby*bpy + abz*bpz, d4 = acx*bpx + acy*bpy + acz*bpz;
+  if (d3 >= 0 && d4 <= d3) { _cpX = pos[b]; _cpY = pos[b+1]; _cpZ = pos[b+2]; return; }
+  var vc = d1*d4 - d3*d2;
+  if (vc <= 0 && d1 >= 0 && d3 <= 0) {
+    var s = d1 / (d1 - d3);
+    _cpX = ax + s*abx; _cpY = ay + s*aby; _cpZ = az + s*abz; return;
+  }
+  var cpx = px-pos[c], cpy = py-pos[c+1], cpz = pz-pos[c+2];
+  var d5 = abx*cpx + aby*cpy + abz*cpz, d6 = acx*cpx + acy*cpy + acz*cpz;
+  if (d6 >= 0 && d5 <= d6) { _cpX = pos[c]; _cpY = pos[c+1]; _cpZ = pos[c+2]; return; }
+  var vb = d5*d2 - d1*d6;
+  if (vb <= 0 && d2 >= 0 && d6 <= 0) {
+    var s = d2 / (d2 - d6);
+    _cpX = ax + s*acx; _cpY = ay + s*acy; _cpZ = az + s*acz; return;
+  }
+  var va = d3*d6 - d5*d4;
+  if (va <= 0 && d4 - d3 >= 0 && d5 - d6 >= 0) {
+    var s = (d4 - d3) / ((d4 - d3) + (d5 - d6));
+    _cpX = pos[b] + s*(pos[c]-pos[b]); _cpY = pos[b+1] + s*(pos[c+1]-pos[b+1]); _cpZ = pos[b+2] + s*(pos[c+2]-pos[b+2]);
+    return;
+  }
+  var denom = 1 / (va + vb + vc), v = vb * denom, w = vc * denom;
+  _cpX = ax + abx*v + acx*w; _cpY = ay + aby*v + acy*w; _cpZ = az + abz*v + acz*w;
+}
+
+function _boxDistanceSq(mn, mx, px, py, pz) {
+  var dx = Math.max(mn[0] - px, 0, px - mx[0]);
+  var dy = Math.max(mn[1] - py, 0, py - mx[1]);
+  var dz = Math.max(mn[2] - pz, 0, pz - mx[2]);
+  return dx*dx + dy*dy + dz*dz;
+}
+
+// Nearest surface point to p; returns the triangle (-1 when empty) and
+// leaves the point in _cpX / _cpY / _cpZ
+function _bvhClosest(bvh, px, py, pz) {
+  if (bvh.start.length === 0) return -1;
+  var best = Infinity, bestTri = -1, bx = 0, by = 0, bz = 0, pos = bvh.pos, idx = bvh.idx;
+  var stack = [0];
+  while (stack.length) {
+    var node = stack.pop();
+    if (_boxDistanceSq(bvh.bmin[node], bvh.bmax[node], px, py, pz) >= best) continue;
+    if (bvh.count[node] === 0) {
+      // Visit the nearer child first so it tightens the bound early
+      var l = bvh.left[node], r = bvh.right[node];
+      if (_boxDistanceSq(bvh.bmin[l], bvh.bmax[l], px, py, pz) < _boxDistanceSq(bvh.bmin[r], bvh.bmax[r], px, py, pz)) {
+        stack.push(r, l);
+      } else {
+        stack.push(l, r);
+      }
+      continue;
+    }
+    for (var t = bvh.start[node], end = t + bvh.count[node]; t < end; t++) {
+      var tri = bvh.order[t];
+      _closestOnTriangle(pos, idx[tri*3]*3, idx[tri*3+1]*3, idx[tri*3+2]*3, px, py, pz);
+      var d = (_cpX-px)*(_cpX-px) + (_cpY-py)*(_cpY-py) + (_cpZ-pz)*(_cpZ-pz);
+      if (d < best) { best = d; bestTri = tri; bx = _cpX; by = _cpY; bz = _cpZ; }
+    }
+  }
+  _cpX = bx; _cpY = by; _cpZ = bz;
+  return bestTri;
+}
+
+// Unit normal of a triangle, following its winding
+function _triangleNormal(pos, idx, tri) {
+  var a = idx[tri*3]*3, b = idx[tri*3+1]*3, c = idx[tri*3+2]*3;
+  var e1x = pos[b]-pos[a], e1y = pos[b+1]-pos[a+1], e1z = pos[b+2]-pos[a+2];
+  var e2x = pos[c]-pos[a], e2y = pos[c+1]-pos[a+1], e2z = pos[c+2]-pos[a+2];
+  var nx = e1y*e2z - e1z*e2y, ny = e1z*e2x - e1x*e2z, nz = e1x*e2y - e1y*e2x;
+  var len = Math.sqrt(nx*nx + ny*ny + nz*nz) || 1;
+  return [nx/len, ny/len, nz/len];
+}
+
+// Barycentric weights of point p on triangle abc (p assumed in its plane)
+function _barycentric(pos, a, b, c, px, py, pz) {
+  var e1x = pos[b]-pos[a], e1y = pos[b+1]-pos[a+1], e1z = pos[b+2]-pos[a+2];
+  var e2x = pos[c]-pos[a], e2y = pos[c+1]-pos[a+1], e2z = pos[c+2]-pos[a+2];
+  var qx = px-pos[a], qy = py-pos[a+1], qz = pz-pos[a+2];
+  var d00 = e1x*e1x + e1y*e1y + e1z*e1z, d01 = e1x*e2x + e1y*e2y + e1z*e2z;
+  var d11 = e2x*e2x + e2y*e2y + e2z*e2z;
+  var d20 = qx*e1x + qy*e1y + qz*e1z, d21 = qx*e2x + qy*e2y + qz*e2z;
+  var den = d00*d11 - d01*d01;
+  if (!(Math.abs(den) > 1e-20)) return [1, 0, 0];
+  var v = (d11*d20 - d01*d21) / den, w = (d00*d21 - d01*d20) / den;
+  return [1 - v - w, v, w];
+}
+
+// Adds the query methods to a LAYERS entry. geometry is only sent when the
+// code calls one of them on a layer it names, so a missing one means a call
+// we could not see, or geometryError says why it could not be built.
+function _addLayerQueries(entry, id, geometry, geometryError) {
+  var bvh = null;
+  var bvhFor = function(name) {
+    if (geometryError) throw new Error('LAYERS["' + id + '"].' + name + ": " + geometryError);
+    if (!geometry) {
+      throw new Error('LAYERS["' + id + '"].' + name + ': write the id as "' + id + '" in the code and call .' + name + "(...) on it so the layer's triangles are sent along");
+    }
+    if (!bvh) bvh = _buildBVH(geometry.positions, geometry.indices);
+    return bvh;
+  };
+  // Nearest hit along the ray, or null. The normal faces back toward origin.
+  entry.raycast = function(origin, dir, maxDistance) {
+    var b = bvhFor("raycast");
+    var len = Math.sqrt(dir[0]*dir[0] + dir[1]*dir[1] + dir[2]*dir[2]);
+    if (!(len > 0)) throw new Error('LAYERS["' + id + '"].raycast: dir must be a non-zero [x, y, z]');
+    var dx = dir[0]/len, dy = dir[1]/len, dz = dir[2]/len;
+    _bvhRaycast(b, origin[0], origin[1], origin[2], dx, dy, dz, maxDistance === undefined ? Infinity : maxDistance);
+    if (_hitTri < 0) return null;
+    var n = _triangleNormal(b.pos, b.idx, _hitTri);
+    if (n[0]*dx + n[1]*dy + n[2]*dz > 0) { n[0] = -n[0]; n[1] = -n[1]; n[2] = -n[2]; }
+    return {
+      point: [origin[0] + dx*_hitT, origin[1] + dy*_hitT, origin[2] + dz*_hitT],
+      normal: n,
+      distance: _hitT
+    };
+  };
+  // Topmost surface above (x, z), or null where the layer has none
+  entry.heightAt = function(x, z) {
+    bvhFor("heightAt");
+    var top = entry.bounds.max[1] + 1;
+    var hit = entry.raycast([x, top, z], [0, -1, 0]);
+    return hit ? hit.point[1] : null;
+  };
+  // Nearest point on the surface, or null for an empty layer
+  entry.closestPoint = function(p) {
+    var b = bvhFor("closestPoint");
+    var tri = _bvhClosest(b, p[0], p[1], p[2]);
+    if (tri < 0) return null;
+    var dx = _cpX - p[0], dy = _cpY - p[1], dz = _cpZ - p[2];
+    return {
+      point: [_cpX, _cpY, _cpZ],
+      normal: _triangleNormal(b.pos, b.idx, tri),
+      distance: Math.sqrt(dx*dx + dy*dy + dz*dz)
+    };
+  };
+  // Signed distance to the surface, negative inside. A point is inside when
+  // a ray from it crosses the surface an odd number of times; the ray leans
+  // off vertical so it does not graze shared edges, and points below an
+  // open sheet such as terrain count as inside it.
+  entry.sdf = function(x, y, z) {
+    var b = bvhFor("sdf");
+    if (_bvhClosest(b, x, y, z) < 0) return Infinity;
+    var dx = _cpX - x, dy = _cpY - y, dz = _cpZ - z;
+    var d = Math.sqrt(dx*dx + dy*dy + dz*dz);
+    return _bvhCrossings(b, x, y, z, 0.0123, 0.9999, 0.0071) % 2 ? -d : d;
+  };
+  // Vertex color interpolated at the nearest surface point
+  entry.colorAt = function(x, y, z) {
+    var b = bvhFor("colorAt");
+    var tri = _bvhClosest(b, x, y, z);
+    var col = geometry.colors;
+    if (tri < 0 || !col) return [0.5, 0.5, 0.5];
+    var ia = b.idx[tri*3], ib = b.idx[tri*3+1], ic = b.idx[tri*3+2];
+    var w = _barycentric(b.pos, ia*3, ib*3, ic*3, _cpX, _cpY, _cpZ);
+    return [
+      col[ia*3]*w[0] + col[ib*3]*w[1] + col[ic*3]*w[2],
+      col[ia*3+1]*w[0] + col[ib*3+1]*w[1] + col[ic*3+1]*w[2],
+      col[ia*3+2]*w[0] + col[ib*3+2]*w[1] + col[ic*3+2]*w[2]
+    ];
+  };
+}
+
+// =========================================================================
+// scatter() — Poisson-disk placement over a surface
+// Bridson's algorithm fills the region with points at least minDistance
+// apart, then the filters (slope, height range, density) thin them out, so
+// the survivors keep their spacing instead of clumping. Points come from
+// their own PRNG: a seed always scatters the same points.
+// =========================================================================
+var SCATTER_MAX_POINTS = 20000;
+// Points per minDistance squared that Bridson's algorithm leaves behind
+var SCATTER_PACKING = 0.67;
+var _layers = {};
+var _sfY = 0, _sfNormal = null;
+
+function scatter(options) {
+  options = options || {};
+  var layer = null;
+  if (options.onLayer !== undefined) {
+    layer = typeof options.onLayer === "string" ? _layers[options.onLayer] : options.onLayer;
+    if (!layer || !layer.bounds) throw new Error('scatter: no layer "' + options.onLayer + '" in LAYERS');
+  }
+  var region = options.region ||
+    (layer ? [layer.bounds.min[0], layer.bounds.min[2], layer.bounds.max[0], layer.bounds.max[2]] : null);
+  if (!region || region.length !== 4) throw new Error("scatter: give region: [x0, z0, x1, z1] or onLayer: id");
+  var x0 = Math.min(region[0], region[2]), x1 = Math.max(region[0], region[2]);
+  var z0 = Math.min(region[1], region[3]), z1 = Math.max(region[1], region[3]);
+  var w = x1 - x0, d = z1 - z0;
+  if (!(w > 0 && d > 0)) throw new Error("scatter: region must have a non-zero area");
+
+  var surface = _scatterSurface(options.height, layer, Math.max(w, d));
+  var rnd = _seededRandom(options.seed);
+  var minNormalY = options.slopeMax === undefined ? -1 : Math.cos(options.slopeMax) - 1e-9;
+  var range = options.heightRange;
+  var densityFn = options.densityFn;
+  var count = options.count === undefined ? Infinity : Math.max(0, Math.floor(options.count));
+  // roll is drawn by the caller either way, so rejections never shift the sequence
+  var accept = function(x, z, roll) {
+    if (!surface(x, z)) return false;
+    if (_sfNormal[1] < minNormalY) return false;
+    if (range && (_sfY < range[0] || _sfY > range[1])) return false;
+    if (densityFn && roll >= densityFn(x, z)) return false;
+    return true;
+  };
+
+  var r = options.minDistance;
+  if (r === undefined) {
+    if (count === Infinity) throw new Error("scatter: give count, minDistance or both");
+    // Space count points over the share of the region that passes the
+    // filters, with some to spare for count to trim
+    var pass = 0;
+    for (var i = 0; i < 256; i++) {
+      var tx = x0 + rnd()*w, tz = z0 + rnd()*d;
+      if (accept(tx, tz, rnd())) pass++;
+    }
+    r = Math.sqrt(w * d * Math.max(pass, 1) / 256 / Math.max(count, 1) * SCATTER_PACKING * 0.85);
+  }
+  if (!(r > 0)) throw new Error("scatter: minDistance must be a positive number");
+  var estimate = Math.round(w * d / (r * r) * SCATTER_PACKING);
+  if (estimate > SCATTER_MAX_POINTS) {
+    throw new Error("scatter: minDistance " + r + " would place about " + estimate +
+      " points over the region, more than " + SCATTER_MAX_POINTS + "; raise minDistance or shrink the region");
+  }
+
+  var pts = _poissonDisk(x0, z0, w, d, r, rnd);
+  // Shuffled so count trims evenly rather than around the first point
+  for (var i = pts.length - 1; i > 0; i--) {
+    var j = Math.floor(rnd() * (i + 1)), tmp = pts[i];
+    pts[i] = pts[j]; pts[j] = tmp;
+  }
+  var out = [];
+  for (var i = 0; i < pts.length && out.length < count; i++) {
+    var x = pts[i][0], z = pts[i][1];
+    if (!accept(x, z, rnd())) continue;
+    out.push({
+      position: [x, _sfY, z],
+      normal: _sfNormal,
+      rotation: rnd() * Math.PI * 2,
+      seed: Math.floor(rnd() * 4294967296)
+    });
+  }
+  return out;
+}
+
+// Returns fn(x, z) that leaves the surface height and normal in _sfY /
+// _sfNormal, or returns false where there is no surface
+function _scatterSurface(height, layer, size) {
+  if (layer) {
+    // A terrain layer's heightmap is exact and much cheaper than a raycast
+    if (layer.heightmap) {
+      height = layer.heightmap;
+    } else {
+      var top = layer.bounds.max[1] + 1;
+      return function(x, z) {
+        var hit = layer.raycast([x, top, z], [0, -1, 0]);
+        if (!hit) return false;
+        _sfY = hit.point[1]; _sfNormal = hit.normal;
+        return true;
+      };
+    }
+  }
+  if (height instanceof Heightmap) {
+    return function(x, z) {
+      _sfY = height.sample(x, z); _sfNormal = height.normalAt(x, z);
+      return true;
+    };
+  }
+  if (typeof height === "function") {
+    var eps = size * 1e-4;
+    return function(x, z) {
+      _sfY = height(x, z);
+      var slopeX = (height(x+eps, z) - height(x-eps, z)) / (2*eps);
+      var slopeZ = (height(x, z+eps) - height(x, z-eps)) / (2*eps);
+      var len = Math.sqrt(slopeX*slopeX + 1 + slopeZ*slopeZ);
+      _sfNormal = [-slopeX/len, 1/len, -slopeZ/len];
+      return true;
+    };
+  }
+  var y = height === undefined ? 0 : height;
+  if (typeof y !== "number") throw new Error("scatter: height must be a number, a function (x, z) or a Heightmap");
+  return function() {
+    _sfY = y; _sfNormal = [0, 1, 0];
+    return true;
+  };
+}
+
+// Bridson (2007): grow from random live points, trying 30 candidates in the
+// ring [r, 2r] around each before retiring it. One point per grid cell.
+function _poissonDisk(x0, z0, w, d, r, rnd) {
+  var cell = r / Math.SQRT2, gw = Math.ceil(w / cell), gd = Math.ceil(d / cell);
+  var grid = new Int32Array(gw * gd).fill(-1);
+  var pts = [[x0 + rnd()*w, z0 + rnd()*d]], active = [0];
+  grid[Math.min(gd-1, Math.floor((pts[0][1]-z0)/cell))*gw + Math.min(gw-1, Math.floor((pts[0][0]-x0)/cell))] = 0;
+  while (active.length) {
+    var ai = Math.floor(rnd() * active.length), p = pts[active[ai]], found = false;
+    for (var k = 0; k < 30 && !found; k++) {
+      var a = rnd() * Math.PI * 2, rr = r * (1 + rnd());
+      var x = p[0] + Math.cos(a)*rr, z = p[1] + Math.sin(a)*rr;
+      if (x < x0 || x >= x0 + w || z < z0 || z >= z0 + d) continue;
+      var gi = Math.min(gw-1, Math.floor((x-x0)/cell)), gj = Math.min(gd-1, Math.floor((z-z0)/cell));
+      var ok = true;
+      for (var j = Math.max(0, gj-2); j <= Math.min(gd-1, gj+2) && ok; j++) {
+        for (var i = Math.max(0, gi-2); i <= Math.min(gw-1, gi+2); i++) {
+          var q = grid[j*gw + i];
+          if (q < 0) continue;
+          var dx = pts[q][0] - x, dz = pts[q][1] - z;
+          if (dx*dx + dz*dz < r*r) { ok = false; break; }
+        }
+      }
+      if (!ok) continue;
+      grid[gj*gw + gi] = pts.length;
+      active.push(pts.length);
+      pts.push([x, z]);
+      found = true;
+    }
+    if (!found) {
+      active[ai] = active[active.length - 1];
+      active.pop();
+    }
+  }
+  return pts;
+}
+
+// =========================================================================
+// tree() — Procedural trees
+// The skeleton is grown by space colonization (Runions et al. 2007): the
+// species' crown envelope is filled with attraction points, and every
+// branch node with points nearby grows one step toward their mean
+// direction, bent by the species' tropism, until the points are reached.
+// Branch radii follow the pipe model from the twig tips down. Chains of
+// nodes are swept as smooth tapered tubes and leaf clusters are noisy
+// ellipsoids at the twig tips. The skeleton comes from its own PRNG, so a
+// seed always grows the same tree — in another layer,
+// tree({ seed: s, only: "leaves" }) matches the first.
+// =========================================================================
+// crown: envelope shape, crownBase/crownRadius: where it starts and how
+// wide it is (fractions of the height). The trunk grows trunkLength before
+// colonization starts; whorl > 0 lets only every whorl-th trunk node branch.
+var TREE_SPECIES = {
+  oak: {
+    trunkLength: 0.38, trunkRadius: 0.055, bend: 0.35, whorl: 0,
+    crown: "ellipsoid", crownBase: 0.3, crownRadius: 0.5, attractors: 260, tropism: 0.1,
+    leafSize: 0.13, leafShape: [1, 0.75, 1], leafDrop: 0,
+    bark: [0.33, 0.24, 0.16], barkContrast: 0.15, leaf: [0.23, 0.4, 0.13]
+  },
+  birch: {
+    trunkLength: 0.9, trunkRadius: 0.028, bend: 0.25, whorl: 0,
+    crown: "ellipsoid", crownBase: 0.3, crownRadius: 0.2, attractors: 200, tropism: 0.2,
+    leafSize: 0.1, leafShape: [1, 0.85, 1], leafDrop: 0,
+    bark: [0.86, 0.84, 0.79], barkContrast: 0.7, leaf: [0.45, 0.58, 0.2]
+  },
+  pine: {
+    trunkLength: 0.97, trunkRadius: 0.04, bend: 0.08, whorl: 3,
+    crown: "cone", crownBase: 0.18, crownRadius: 0.42, attractors: 320, tropism: -0.15,
+    leafSize: 0.09, leafShape: [1.4, 0.35, 1.4], leafDrop: 0,
+    bark: [0.3, 0.2, 0.14], barkContrast: 0.15, leaf: [0.1, 0.26, 0.13]
+  },
+  willow: {
+    trunkLength: 0.42, trunkRadius: 0.06, bend: 0.2, whorl: 0,
+    crown: "dome", crownBase: 0.15, crownRadius: 0.45, attractors: 260, tropism: -0.45,
+    leafSize: 0.09, leafShape: [0.45, 1.7, 0.45], leafDrop: 1,
+    bark: [0.3, 0.24, 0.17], barkContrast: 0.15, leaf: [0.42, 0.55, 0.2]
+  }
+};
+var TREE_PARTS = ["trunk", "branches", "leaves"];
+// Stop growing past this many skeleton nodes, whatever the options ask for
+var TREE_MAX_NODES = 5000;
+var TREE_MAX_ITERATIONS = 200;
+
+// tree(options) — options: { species, height, seed, branching, leafDensity,
+// position, barkColor, leafColor, only }. Returns handles for the trunk,
+// branches and leaves parts (bounds in the coordinates tree() was called in).
+function tree(options) {
+  _setProgress("tree", 0, 0);
+  options = options || {};
+  var speciesName = options.species || "oak";
+  var sp = TREE_SPECIES[speciesName];
+  if (!sp) {
+    throw new Error(
+      'tree: unknown species "' + speciesName + '" (expected ' +
+      Object.keys(TREE_SPECIES).map(function(n) { return '"' + n + '"'; }).join(", ") + ")"
+    );
+  }
+  var only = options.only === undefined ? TREE_PARTS
+    : (Array.isArray(options.only) ? options.only : [options.only]);
+  for (var i = 0; i < only.length; i++) {
+    if (TREE_PARTS.indexOf(only[i]) < 0) {
+      throw new Error('tree: unknown part "' + only[i] + '" in only (expected "trunk", "branches" or "leaves")');
+    }
+  }
+  var height = options.height || 1;
+  var branching = Math.max(0, Math.min(1, options.branching === undefined ? 0.5 : options.branching));
+  var leafDensity = Math.max(0, Math.min(1, options.leafDensity === undefined ? 0.5 : options.leafDensity));
+  var pos = options.position || [0, 0, 0];
+  var bark = options.barkColor || sp.bark;
+  var leafColor = options.leafColor || sp.leaf;
+
+  var rnd = _seededRandom(options.seed);
+
+  // --- Skeleton ---
+  var nodes = _treeColonize(sp, rnd, pos, height, branching);
+  var branches = _treeChains(nodes);
+
+  // --- Leaf clusters at the twig tips ---
+  var clusters = [];
+  if (leafDensity > 0) {
+    for (var i = 0; i < branches.length; i++) {
+      var br = branches[i];
+      var spots = leafDensity > 0.6 && br.points.length > 3 ? [1, 0.5] : [1];
+      for (var k = 0; k < spots.length; k++) {
+        if (rnd() > 0.35 + leafDensity) continue;
+        var p = br.points[Math.round(spots[k] * (br.points.length - 1))];
+        var size = height * sp.leafSize * (0.6 + 0.6 * leafDensity) * (0.75 + rnd() * 0.5);
+        clusters.push([p[0], p[1] - sp.leafDrop * size * sp.leafShape[1] * 0.8, p[2], size]);
+      }
+    }
+  }
+
+  // --- Meshing, each group in its own material part ---
+  var useParts = _currentPart < 0 && !_definingInstance;
+  var wants = function(name) { return only.indexOf(name) >= 0; };
+  if (wants("trunk")) {
+    if (useParts) beginPart("trunk", { roughness: 0.95 });
+    _treeTube(branches[0], 12, bark, sp.barkContrast);
+    if (useParts) endPart();
+  }
+  if (wants("branches") && branches.length > 1) {
+    if (useParts) beginPart("branches", { roughness: 0.95 });
+    for (var i = 1; i < branches.length; i++) {
+      _setProgress("tree", i, branches.length);
+      _treeTube(branches[i], branches[i].level === 1 ? 8 : 5, bark, sp.barkContrast);
+    }
+    if (useParts) endPart();
+  }
+  if (wants("leaves") && clusters.length) {
+    if (useParts) beginPart("leaves", { roughness: 0.75 });
+    for (var i = 0; i < clusters.length; i++) {
+      var cl = clusters[i];
+      _treeLeafCluster(cl, sp.leafShape, leafColor, i);
+    }
+    if (useParts) endPart();
+  }
+
+  // --- Handles ---
+  var trunk = branches[0];
+  var tips = [];
+  var branchBounds = _treeBounds([]);
+  for (var i = 1; i < branches.length; i++) {
+    var pts = branches[i].points;
+    tips.push(pts[pts.length - 1]);
+    _treeBounds(pts, branches[i].radius, branchBounds);
+  }
+  var leafBounds = _treeBounds([]);
+  for (var i = 0; i < clusters.length; i++) {
+    var cl = clusters[i];
+    _treeBounds([[cl[0] - cl[3]*sp.leafShape[0], cl[1] - cl[3]*sp.leafShape[1], cl[2] - cl[3]*sp.leafShape[2]],
+      [cl[0] + cl[3]*sp.leafShape[0], cl[1] + cl[3]*sp.leafShape[1], cl[2] + cl[3]*sp.leafShape[2]]], 0, leafBounds);
+  }
+  var trunkBounds = _treeBounds(trunk.points, trunk.radius * 1.4);
+  var all = _treeBounds([trunkBounds.min, trunkBounds.max]);
+  if (branches.length > 1) _treeBounds([branchBounds.min, branchBounds.max], 0, all);
+  if (clusters.length) _treeBounds([leafBounds.min, leafBounds.max], 0, all);
+  return {
+    species: speciesName,
+    bounds: all,
+    trunk: {
+      part: "trunk", base: trunk.points[0], top: trunk.points[trunk.points.length - 1],
+      radius: trunk.radius, bounds: trunkBounds
+    },
+    branches: { part: "branches", count: branches.length - 1, tips: tips, bounds: branchBounds },
+    leaves: { part: "leaves", clusters: clusters, bounds: leafBounds }
+  };
+}
+
+// Whether a point at height fraction h (0 at the crown base, 1 at the top)
+// and radial fraction r lies inside a crown envelope
+function _treeInCrown(shape, h, r) {
+  if (shape === "cone") return r <= 1 - h;
+  if (shape === "dome") return r * r <= 1 - h * h;
+  return (2*h - 1) * (2*h - 1) + r * r <= 1;
+}
+
+// Unit vector along d + delta
+function _treeTurn(d, delta) {
+  var x = d[0] + delta[0], y = d[1] + delta[1], z = d[2] + delta[2];
+  var len = Math.sqrt(x*x + y*y + z*z) || 1;
+  return [x/len, y/len, z/len];
+}
+
+// Space colonization: grows the trunk, scatters attraction points through
+// the crown and extends the nearest nodes toward them, one step per pass,
+// dropping the points that branches reach. Returns the nodes, parents
+// before children, with pipe-model radii.
+function _treeColonize(sp, rnd, base, height, branching) {
+  var step = height * 0.035;
+  var nodes = [];
+  var addNode = function(p, parent, dir, canBranch) {
+    nodes.push({ p: p, parent: parent, dir: dir, children: [], canBranch: canBranch, pipe: 0, r: 0 });
+    if (parent >= 0) nodes[parent].children.push(nodes.length - 1);
+  };
+
+  // Trunk, leaning a little at random
+  var trunkSteps = Math.max(2, Math.round(height * sp.trunkLength / step));
+  var d = [0, 1, 0];
+  addNode([base[0], base[1], base[2]], -1, d, !sp.whorl);
+  for (var k = 1; k <= trunkSteps; k++) {
+    d = _treeTurn(d, [(rnd() - 0.5) * sp.bend * 0.3, 0, (rnd() - 0.5) * sp.bend * 0.3]);
+    var q = nodes[k-1].p;
+    addNode([q[0] + d[0]*step, q[1] + d[1]*step, q[2] + d[2]*step], k - 1, d, !sp.whorl || k % sp.whorl === 0);
+  }
+
+  // Attraction points, uniform in the crown envelope
+  var count = Math.round(sp.attractors * (0.3 + 1.4 * branching));
+  var crownY = base[1] + height * sp.crownBase, crownH = height * (1 - sp.crownBase);
+  var crownR = height * sp.crownRadius;
+  var points = [];
+  for (var tries = 0; points.length < count && tries < count * 10; tries++) {
+    var h = rnd(), ax = rnd() * 2 - 1, az = rnd() * 2 - 1;
+    var r = Math.sqrt(ax*ax + az*az);
+    if (r > 1 || !_treeInCrown(sp.crown, h, r)) continue;
+    points.push({ x: base[0] + ax*crownR, y: crownY + h*crownH, z: base[2] + az*crownR, node: -1, dist: Infinity });
+  }
+
+  var influence2 = height * height * 0.25, kill2 = step * step * 4;
+  var seen = 0;
+  for (var iter = 0; iter < TREE_MAX_ITERATIONS && points.length && nodes.length < TREE_MAX_NODES; iter++) {
+    _setProgress("tree", iter, TREE_MAX_ITERATIONS);
+    // Nearest branching node per point; only the nodes added since the
+    // last pass can be nearer than the one already found
+    var alive = [];
+    for (var i = 0; i < points.length; i++) {
+      var a = points[i], reached = false;
+      for (var j = seen; j < nodes.length; j++) {
+        var q = nodes[j].p;
+        var dx = q[0] - a.x, dy = q[1] - a.y, dz = q[2] - a.z, dd = dx*dx + dy*dy + dz*dz;
+        if (dd < kill2) { reached = true; break; }
+        if (nodes[j].canBranch && dd < a.dist) { a.dist = dd; a.node = j; }
+      }
+      if (!reached) alive.push(a);
+    }
+    points = alive;
+    seen = nodes.length;
+
+    // Each node pulled by points grows one step toward their mean direction
+    var pull = [], pulled = [];
+    for (var i = 0; i < points.length; i++) {
+      var a = points[i];
+      if (a.node < 0 || a.dist > influence2) continue;
+      var q = nodes[a.node].p, len = Math.sqrt(a.dist) || 1;
+      if (!pull[a.node]) { pull[a.node] = [0, 0, 0]; pulled.push(a.node); }
+      var s = pull[a.node];
+      s[0] += (a.x - q[0]) / len; s[1] += (a.y - q[1]) / len; s[2] += (a.z - q[2]) / len;
+    }
+    var grew = false;
+    for (var i = 0; i < pulled.length && nodes.length < TREE_MAX_NODES; i++) {
+      var j = pulled[i], s = pull[j], node = nodes[j];
+      var len = Math.sqrt(s[0]*s[0] + s[1]*s[1] + s[2]*s[2]);
+      if (len < 1e-6) continue;
+      var dir = _treeTurn([s[0]/len, s[1]/len, s[2]/len],
+        [(rnd() - 0.5) * sp.bend, sp.tropism + (rnd() - 0.5) * sp.bend, (rnd() - 0.5) * sp.bend]);
+      // Growing where a child already points would only stack a duplicate
+      var twin = false;
+      for (var c = 0; c < node.children.length; c++) {
+        var cd = nodes[node.children[c]].dir;
+        if (cd[0]*dir[0] + cd[1]*dir[1] + cd[2]*dir[2] > 0.95) { twin = true; break; }
+      }
+      if (twin) continue;
+      var q = node.p;
+      addNode([q[0] + dir[0]*step, q[1] + dir[1]*step, q[2] + dir[2]*step], j, dir, true);
+      grew = true;
+    }
+    if (!grew) break;
+  }
+
+  // Pipe model: a node's cross-section area is the sum of its children's,
+  // scaled so the trunk base gets the species' radius
+  for (var i = nodes.length - 1; i >= 0; i--) {
+    var node = nodes[i];
+    node.r = node.children.length ? Math.sqrt(node.pipe) : 1;
+    if (node.parent >= 0) nodes[node.parent].pipe += node.r * node.r;
+  }
+  var trunkRadius = height * sp.trunkRadius, scale = trunkRadius / nodes[0].r;
+  for (var i = 0; i < nodes.length; i++) {
+    nodes[i].r = Math.max(nodes[i].r * scale, trunkRadius * 0.04);
+  }
+  return nodes;
+}
+
+// Splits the node tree into branches: each one follows its thickest child
+// and the other children start branches one level up. The trunk is first.
+function _treeChains(nodes) {
+  var branches = [], stack = [[0, -1, 0]];
+  while (stack.length) {
+    var item = stack.pop(), i = item[0], level = item[2];
+    var chain = item[1] >= 0 ? [item[1], i] : [i];
+    while (nodes[i].children.length) {
+      var ch = nodes[i].children, main = ch[0];
+      for (var c = 1; c < ch.length; c++) {
+        if (nodes[ch[c]].r > nodes[main].r) main = ch[c];
+      }
+      for (var c = 0; c < ch.length; c++) {
+        if (ch[c] !== main) stack.push([ch[c], i, level + 1]);
+      }
+      chain.push(main);
+      i = main;
+    }
+    branches.push(_treeBranch(nodes, chain, level));
+  }
+  return branches;
+}
+
+// One branch along a chain of nodes, smoothed once and tapering with the
+// nodes' radii. A side branch starts on its parent's axis at its own radius.
+function _treeBranch(nodes, chain, level) {
+  var n = chain.length, points = [], radii = [];
+  for (var i = 0; i < n; i++) {
+    var b = nodes[chain[i]].p;
+    if (i === 0 || i === n - 1) {
+      points.push([b[0], b[1], b[2]]);
+    } else {
+      var a = nodes[chain[i-1]].p, c = nodes[chain[i+1]].p;
+      points.push([(a[0] + 2*b[0] + c[0]) / 4, (a[1] + 2*b[1] + c[1]) / 4, (a[2] + 2*b[2] + c[2]) / 4]);
+    }
+    radii.push(nodes[chain[i]].r);
+  }
+  if (level > 0) radii[0] = radii[1];
+  var arc = [0];
+  for (var i = 1; i < n; i++) {
+    var dx = points[i][0] - points[i-1][0], dy = points[i][1] - points[i-1][1], dz = points[i][2] - points[i-1][2];
+    arc[i] = arc[i-1] + Math.sqrt(dx*dx + dy*dy + dz*dz);
+  }
+  var length = arc[n-1] || 1, flare = level === 0;
+  return {
+    level: level, points: points, length: length, radius: radii[0],
+    frames: _pathFrames(points),
+    radiusAt: function(t) {
+      var s = t * length, k = 1;
+      while (k < n - 1 && arc[k] < s) k++;
+      var f = arc[k] > arc[k-1] ? Math.min(1, Math.max(0, (s - arc[k-1]) / (arc[k] - arc[k-1]))) : 1;
+      var r = radii[k-1] + (radii[k] - radii[k-1]) * f;
+      // Root flare at the base of the trunk
+      if (flare && t < 0.1) r *= 1 + 0.5 * (1 - t / 0.1) * (1 - t / 0.1);
+      return r;
+    }
+  };
+}
+
+// Smooth tapered tube along a branch, closed with a point at the tip
+function _treeTube(br, sides, color, contrast) {
+  var pts = br.points, nPts = pts.length, f = br.frames;
+  var previousSource = _beginBakeSource("explicit", null);
+  _hasCustomNormals = true;
+  var arc = [0];
+  for (var i = 1; i < nPts; i++) {
+    var dx = pts[i][0]-pts[i-1][0], dy = pts[i][1]-pts[i-1][1], dz = pts[i][2]-pts[i-1][2];
+    arc[i] = arc[i-1] + Math.sqrt(dx*dx + dy*dy + dz*dz);
+  }
+  var cosA = [], sinA = [];
+  for (var j = 0; j < sides; j++) {
+    cosA[j] = Math.cos(j / sides * Math.PI * 2);
+    sinA[j] = Math.sin(j / sides * Math.PI * 2);
+  }
+  var emit = function(x,y,z, nx,ny,nz, shade) {
+    if (!_identityTransform) {
+      _toWorldNormal(nx, ny, nz); nx = _wx; ny = _wy; nz = _wz;
+      _toWorld(x, y, z); x = _wx; y = _wy; z = _wz;
+    }
+    return _pushVertex(x, y, z, nx, ny, nz, color[0]*shade, color[1]*shade, color[2]*shade);
+  };
+  var rings = [];
+  for (var i = 0; i < nPts; i++) {
+    var p = pts[i], n = f.normals[i], bn = f.binormals[i];
+    var r = br.radiusAt(arc[i] / arc[nPts-1]);
+    var ring = [];
+    for (var j = 0; j < sides; j++) {
+      var nx = n[0]*cosA[j] + bn[0]*sinA[j];
+      var ny = n[1]*cosA[j] + bn[1]*sinA[j];
+      var nz = n[2]*cosA[j] + bn[2]*sinA[j];
+      var x = p[0] + nx*r, y = p[1] + ny*r, z = p[2] + nz*r;
+      // Bark streaks along the grain
+      var shade = 1 - contrast * (0.5 + 0.5 * perlin3D(x * 40, y * 6, z * 40));
+      ring.push(emit(x, y, z, nx, ny, nz, shade));
+    }
+    rings.push(ring);
+  }
+  var end = pts[nPts-1], tEnd = f.tangents[nPts-1];
+  var tipVertex = emit(end[0], end[1], end[2], tEnd[0], tEnd[1], tEnd[2], 0.9);
+  var uStep = 2 * Math.PI * br.radius / sides;
+  for (var i = 0; i < nPts - 1; i++) {
+    for (var j = 0; j < sides; j++) {
+      var j1 = (j + 1) % sides;
+      var u0 = j * uStep, u1 = (j + 1) * uStep, v0 = arc[i], v1 = arc[i+1];
+      _setPendingUV(u0, v0, u1, v0, u1, v1);
+      _pushTriangle(rings[i][j], rings[i][j1], rings[i+1][j1]);
+      _setPendingUV(u0, v0, u1, v1, u0, v1);
+      _pushTriangle(rings[i][j], rings[i+1][j1], rings[i+1][j]);
+    }
+  }
+  var last = rings[nPts-1], vTip = arc[nPts-1] + br.radiusAt(1);
+  for (var j = 0; j < sides; j++) {
+    _setPendingUV(j * uStep, arc[nPts-1], (j + 1) * uStep, arc[nPts-1], (j + 0.5) * uStep, vTip);
+    _pushTriangle(last[j], last[(j + 1) % sides], tipVertex);
+  }
+  _bakeSource = previousSource;
+}
+
+// Unit icosphere (subdivided twice), shared by every leaf cluster
+var _treeSphere = null;
+function _treeIcosphere() {
+  if (_treeSphere) return _treeSphere;
+  var t = (1 + Math.sqrt(5)) / 2;
+  var verts = [
+    [-1,t,0], [1,t,0], [-1,-t,0], [1,-t,0], [0,-1,t], [0,1,t],
+    [0,-1,-t], [0,1,-t], [t,0,-1], [t,0,1], [-t,0,-1], [-t,0,1]
+  ];
+  var faces = [
+    [0,11,5], [0,5,1], [0,1,7], [0,7,10], [0,10,11], [1,5,9], [5,11,4],
+    [11,10,2], [10,7,6], [7,1,8], [3,9,4], [3,4,2], [3,2,6], [3,6,8],
+    [3,8,9], [4,9,5], [2,4,11], [6,2,10], [8,6,7], [9,8,1]
+  ];
+  for (var i = 0; i < verts.length; i++) {
+    var v = verts[i], l = Math.sqrt(v[0]*v[0] + v[1]*v[1] + v[2]*v[2]);
+    verts[i] = [v[0]/l, v[1]/l, v[2]/l];
+  }
+  for (var level = 0; level < 2; level++) {
+    var mids = new Map(), next = [];
+    var mid = function(a, b) {
+      var key = a < b ? a * 4096 + b : b * 4096 + a;
+      var m = mids.get(key);
+      if (m !== undefined) return m;
+      var va = verts[a], vb = verts[b];
+      var x = va[0] + vb[0], y = va[1] + vb[1], z = va[2] + vb[2];
+      var l = Math.sqrt(x*x + y*y + z*z);
+      verts.push([x/l, y/l, z/l]);
+      mids.set(key, verts.length - 1);
+      return verts.length - 1;
+    };
+    for (var i = 0; i < faces.length; i++) {
+      var f = faces[i];
+      var ab = mid(f[0], f[1]), bc = mid(f[1], f[2]), ca = mid(f[2], f[0]);
+      next.push([f[0], ab, ca], [f[1], bc, ab], [f[2], ca, bc], [ab, bc, ca]);
+    }
+    faces = next;
+  }
+  _treeSphere = { verts: verts, faces: faces };
+  return _treeSphere;
+}
+
+// Lumpy ellipsoid of foliage, darker underneath
+function _treeLeafCluster(cl, shape, color, index) {
+  var sphere = _treeIcosphere(), verts = sphere.verts, faces = sphere.faces;
+  var sx = cl[3] * shape[0], sy = cl[3] * shape[1], sz = cl[3] * shape[2];
+  var ox = index * 7.31, oy = index * 3.17;
+  var previousSource = _beginBakeSource("box", null);
+  _hasCustomNormals = true;
+  var ids = [];
+  for (var i = 0; i < verts.length; i++) {
+    var v = verts[i];
+    var bump = 1 + 0.22 * perlin3D(v[0] * 2.2 + ox, v[1] * 2.2 + oy, v[2] * 2.2);
+    var x = cl[0] + v[0]*sx*bump, y = cl[1] + v[1]*sy*bump, z = cl[2] + v[2]*sz*bump;
+    var nx = v[0]/shape[0], ny = v[1]/shape[1], nz = v[2]/shape[2];
+    var nl = Math.sqrt(nx*nx + ny*ny + nz*nz) || 1;
+    nx /= nl; ny /= nl; nz /= nl;
+    var shade = (0.7 + 0.3 * (v[1] * 0.5 + 0.5)) * (0.9 + 0.2 * perlin3D(x * 12, y * 12, z * 12));
+    if (!_identityTransform) {
+      _toWorldNormal(nx, ny, nz); nx = _wx; ny = _wy; nz = _wz;
+      _toWorld(x, y, z); x = _wx; y = _wy; z = _wz;
+    }
+    ids.push(_pushVertex(x, y, z, nx, ny, nz, color[0]*shade, color[1]*shade, color[2]*shade));
+  }
+  for (var i = 0; i < faces.length; i++) {
+    _pushTriangle(ids[faces[i][0]], ids[faces[i][1]], ids[faces[i][2]]);
+  }
+  _bakeSource = previousSource;
+}
+
+// Grow (or start) a { min, max } box around points padded by pad
+function _treeBounds(points, pad, box) {
+  box = box || { min: [Infinity, Infinity, Infinity], max: [-Infinity, -Infinity, -Infinity] };
+  pad = pad || 0;
+  for (var i = 0; i < points.length; i++) {
+    for (var a = 0; a < 3; a++) {
+      box.min[a] = Math.min(box.min[a], points[i][a] - pad);
+      box.max[a] = Math.max(box.max[a], points[i][a] + pad);
+    }
+  }
+  return box;
+}
+
+// =========================================================================
+// building() — Shape-grammar buildings
+// A CGA-style split grammar. The mass is split into its faces by comp():
+// every footprint edge becomes a facade scope (x along the wall from left
+// to right seen from outside, y up), and the top goes to the roof rule.
+// Facade rules carve scopes with split/repeat until terminals (wall,
+// window, door, extrude) emit boxes into the wall, facing outward.
+// =========================================================================
+var BUILDING_PARTS = ["walls", "trim", "glass", "doors", "roof"];
+var BUILDING_ROOFS = ["flat", "gable", "hip"];
+var BUILDING_MAX_DEPTH = 64;
+
+// Rules used when the caller's facade rules don't define them
+var BUILDING_DEFAULT_RULES = {
+  mass: function(m) { m.comp({ front: "front", side: "side", top: "roof" }); },
+  front: function(f) { f.apply("facade"); },
+  side: function(f) { f.apply("facade"); },
+  facade: function(f) { f.repeat("y", f.floorHeight, "floor"); },
+  floor: function(s) {
+    if (s.floor === 0 && s.side === "front") s.split("x", ["~1", 0.18, "~1"], ["tiles", "entrance", "tiles"]);
+    else s.apply("tiles");
+  },
+  tiles: function(s) { s.repeat("x", 0.22, "tile"); },
+  tile: function(s) { s.window(); },
+  entrance: function(s) { s.door(); },
+  roof: function(r) { r.roof(); }
+};
+
+// building(options) — options: { footprint, floors, floorHeight, facade,
+// position, roof, roofHeight, overhang, wallThickness, color, trimColor,
+// glassColor, doorColor, roofColor, only }. footprint is [width, depth]
+// or a polygon [[x,z], ...]; facade maps rule names to function(scope).
+function building(options) {
+  _setProgress("building", 0, 0);
+  options = options || {};
+  var floors = Math.max(1, Math.floor(options.floors || 3));
+  var floorHeight = options.floorHeight || 0.28;
+  var height = floors * floorHeight;
+  var pos = options.position || [0, 0, 0];
+  var wallT = options.wallThickness || 0.03;
+  var roofType = options.roof || "flat";
+  if (BUILDING_ROOFS.indexOf(roofType) < 0) {
+    throw new Error(
+      'building: unknown roof "' + roofType + '" (expected ' +
+      BUILDING_ROOFS.map(function(n) { return '"' + n + '"'; }).join(", ") + ")"
+    );
+  }
+  var only = options.only === undefined ? BUILDING_PARTS
+    : (Array.isArray(options.only) ? options.only : [options.only]);
+  for (var i = 0; i < only.length; i++) {
+    if (BUILDING_PARTS.indexOf(only[i]) < 0) {
+      throw new Error('building: unknown part "' + only[i] + '" in only (expected ' +
+        BUILDING_PARTS.map(function(n) { return '"' + n + '"'; }).join(", ") + ")");
+    }
+  }
+  var colors = {
+    walls: options.color || [0.78, 0.72, 0.62],
+    trim: options.trimColor || [0.92, 0.9, 0.85],
+    glass: options.glassColor || [0.22, 0.3, 0.38],
+    doors: options.doorColor || [0.38, 0.24, 0.14],
+    roof: options.roofColor || (roofType === "flat" ? [0.35, 0.35, 0.36] : [0.55, 0.25, 0.18])
+  };
+  var rules = {};
+  for (var k in BUILDING_DEFAULT_RULES) rules[k] = BUILDING_DEFAULT_RULES[k];
+  var custom = options.facade || {};
+  for (var k in custom) rules[k] = custom[k];
+
+  // Footprint polygon, wound so each edge's outward normal is (-dz, dx)
+  var fp = options.footprint || [1, 0.8];
+  var poly;
+  if (typeof fp[0] === "number") {
+    var hw = fp[0] / 2, hd = fp[1] / 2;
+    poly = [[-hw, hd], [hw, hd], [hw, -hd], [-hw, -hd]];
+  } else {
+    poly = fp.map(function(p) { return [p[0], p[1]]; });
+  }
+  if (poly.length < 3) throw new Error("building: footprint needs at least 3 corners");
+  var area = 0;
+  for (var i = 0; i < poly.length; i++) {
+    var a = poly[i], b = poly[(i + 1) % poly.length];
+    area += a[0] * b[1] - b[0] * a[1];
+  }
+  if (area > 0) poly.reverse();
+
+  // Emitted boxes, bucketed by part and by the facade whose frame they use
+  // (-1 = building frame)
+  var boxes = {};
+  for (var i = 0; i < BUILDING_PARTS.length; i++) boxes[BUILDING_PARTS[i]] = [];
+  var facades = [];
+  var depth = 0;
+
+  var run = function(rule, scope) {
+    if (rule === null || rule === undefined || rule === "") return;
+    // A rule may name another rule as an alias
+    var fn = rule, hops = 0;
+    while (typeof fn === "string" && hops++ < BUILDING_MAX_DEPTH) {
+      if (!rules[fn]) throw new Error('building: no rule named "' + fn + '"');
+      fn = rules[fn];
+    }
+    if (typeof fn !== "function") throw new Error("building: rules must be names or functions");
+    if (++depth > BUILDING_MAX_DEPTH) {
+      throw new Error("building: rules nested deeper than " + BUILDING_MAX_DEPTH + " levels (does a rule apply itself?)");
+    }
+    try { fn(scope); } finally { depth--; }
+  };
+
+  var massScope = {
+    floors: floors, floorHeight: floorHeight, height: height, footprint: poly,
+    comp: function(map) {
+      for (var i = 0; i < poly.length; i++) {
+        var a = poly[i], b = poly[(i + 1) % poly.length];
+        var dx = b[0] - a[0], dz = b[1] - a[1];
+        var len = Math.sqrt(dx * dx + dz * dz);
+        if (len < 1e-9) continue;
+        // Name the face after where its outward normal points
+        var nx = -dz / len, nz = dx / len, side;
+        if (Math.abs(nz) >= Math.abs(nx)) side = nz > 0 ? "front" : "back";
+        else side = nx > 0 ? "right" : "left";
+        var target = map[side];
+        if (target === undefined && side !== "front") target = map.side;
+        if (target === undefined) target = map.all;
+        var index = facades.length;
+        facades.push({ origin: a, angle: Math.atan2(-dz / len, dx / len), length: len, side: side });
+        run(target, _buildingScope(facades, index, boxes, run, {
+          x: 0, y: 0, width: len, height: height, side: side,
+          floorHeight: floorHeight, color: null, index: 0, count: 1
+        }, wallT));
+      }
+      if (map.top !== undefined) {
+        run(map.top, {
+          height: height, footprint: poly, type: roofType,
+          roof: function(type, roofHeight, color) {
+            _buildingRoof(boxes.roof, poly, height, type || roofType,
+              roofHeight === undefined ? options.roofHeight : roofHeight,
+              options.overhang === undefined ? 0.04 : options.overhang, color || null);
+          }
+        });
+      }
+    }
+  };
+  run("mass", massScope);
+
+  // --- Emit part by part, each facade's boxes in its own frame ---
+  var useParts = _currentPart < 0 && !_definingInstance;
+  pushTransform();
+  translate(pos[0], pos[1], pos[2]);
+  for (var p = 0; p < BUILDING_PARTS.length; p++) {
+    var part = BUILDING_PARTS[p], list = boxes[part];
+    if (only.indexOf(part) < 0 || !list.length) continue;
+    if (useParts) {
+      beginPart(part, part === "glass" ? { roughness: 0.08, metalness: 0.4 }
+        : part === "roof" ? { roughness: 0.8 } : { roughness: 0.9 });
+    }
+    var base = colors[part];
+    for (var f = -1; f < facades.length; f++) {
+      var framed = false;
+      for (var i = 0; i < list.length; i++) {
+        var bx = list[i];
+        if (bx.facade !== f) continue;
+        if (!framed && f >= 0) {
+          pushTransform();
+          translate(facades[f].origin[0], 0, facades[f].origin[1]);
+          rotateY(facades[f].angle);
+          framed = true;
+        }
+        var c = bx.color || base;
+        if (bx.triangles) {
+          for (var t = 0; t < bx.triangles.length; t++) {
+            var tr = bx.triangles[t];
+            emitTriangle(tr[0], tr[1], tr[2], tr[3], tr[4], tr[5], tr[6], tr[7], tr[8], c[0], c[1], c[2]);
+          }
+        } else {
+          box(bx.cx, bx.cy, bx.cz, bx.sx, bx.sy, bx.sz, c[0], c[1], c[2]);
+        }
+      }
+      if (framed) popTransform();
+    }
+    if (useParts) endPart();
+  }
+  popTransform();
+
+  var minX = Infinity, maxX = -Infinity, minZ = Infinity, maxZ = -Infinity;
+  for (var i = 0; i < poly.length; i++) {
+    minX = Math.min(minX, poly[i][0]); maxX = Math.max(maxX, poly[i][0]);
+    minZ = Math.min(minZ, poly[i][1]); maxZ = Math.max(maxZ, poly[i][1]);
+  }
+  var top = height;
+  for (var i = 0; i < boxes.roof.length; i++) top = Math.max(top, boxes.roof[i].top || 0);
+  return {
+    height: height, roofTop: pos[1] + top, floors: floors,
+    bounds: {
+      min: [pos[0] + minX, pos[1], pos[2] + minZ],
+      max: [pos[0] + maxX, pos[1] + top, pos[2] + maxZ]
+    },
+    facades: facades.map(function(f) { return { side: f.side, length: f.length }; })
+  };
+}
+
+// A facade scope: the rectangle [x, x+width] × [y, y+height] on facade
+// index. Terminals add boxes in facade space, where z = 0 is the outer
+// wall surface and the wall fills z in [-wallT, 0].
+function _buildingScope(facades, index, boxes, run, s, wallT) {
+  var addBox = function(part, x0, x1, y0, y1, z0, z1, color) {
+    if (x1 - x0 <= 1e-6 || y1 - y0 <= 1e-6) return;
+    boxes[part].push({
+      facade: index, color: color || null,
+      cx: (x0 + x1) / 2, cy: (y0 + y1) / 2, cz: (z0 + z1) / 2,
+      sx: x1 - x0, sy: y1 - y0, sz: z1 - z0
+    });
+  };
+  var child = function(x, y, w, h, i, n) {
+    return _buildingScope(facades, index, boxes, run, {
+      x: x, y: y, width: w, height: h, side: s.side, floorHeight: s.floorHeight,
+      color: scope.color, index: i, count: n
+    }, wallT);
+  };
+  // Fills the scope with wall around an opening
+  var wallAround = function(ox0, ox1, oy0, oy1) {
+    var x0 = scope.x, x1 = scope.x + scope.width, y0 = scope.y, y1 = scope.y + scope.height;
+    addBox("walls", x0, ox0, y0, y1, -wallT, 0, scope.color);
+    addBox("walls", ox1, x1, y0, y1, -wallT, 0, scope.color);
+    addBox("walls", ox0, ox1, y0, oy0, -wallT, 0, scope.color);
+    addBox("walls", ox0, ox1, oy1, y1, -wallT, 0, scope.color);
+  };
+  var scope = {
+    x: s.x, y: s.y, width: s.width, height: s.height,
+    side: s.side, floorHeight: s.floorHeight, color: s.color,
+    index: s.index, count: s.count, facade: index,
+    floor: Math.floor((s.y + 1e-6) / s.floorHeight),
+
+    // Pieces along axis "x" or "y": numbers are absolute sizes, "~n"
+    // strings share what is left in proportion n
+    split: function(axis, sizes, rules) {
+      if (axis !== "x" && axis !== "y") throw new Error('split: axis must be "x" or "y"');
+      var total = axis === "x" ? scope.width : scope.height;
+      var fixed = 0, weights = 0;
+      for (var i = 0; i < sizes.length; i++) {
+        if (typeof sizes[i] === "string" && sizes[i].charAt(0) === "~") weights += parseFloat(sizes[i].slice(1)) || 1;
+        else fixed += sizes[i];
+      }
+      // Absolute sizes that overflow the scope shrink to fit, like CGA
+      var fixedScale = fixed > total ? total / fixed : 1;
+      var flexUnit = weights > 0 ? Math.max(0, total - fixed * fixedScale) / weights : 0;
+      var at = 0;
+      for (var i = 0; i < sizes.length; i++) {
+        var size = typeof sizes[i] === "string" && sizes[i].charAt(0) === "~"
+          ? (parseFloat(sizes[i].slice(1)) || 1) * flexUnit : sizes[i] * fixedScale;
+        var rule = Array.isArray(rules) ? rules[i] : rules;
+        var c = axis === "x"
+          ? child(scope.x + at, scope.y, size, scope.height, i, sizes.length)
+          : child(scope.x, scope.y + at, scope.width, size, i, sizes.length);
+        run(rule, c);
+        at += size;
+      }
+    },
+
+    // As many pieces of about size as fit, stretched to fill exactly
+    repeat: function(axis, size, rule) {
+      if (axis !== "x" && axis !== "y") throw new Error('repeat: axis must be "x" or "y"');
+      var total = axis === "x" ? scope.width : scope.height;
+      var n = Math.max(1, Math.round(total / size));
+      var sizes = [];
+      for (var i = 0; i < n; i++) sizes.push(total / n);
+      scope.split(axis, sizes, rule);
+    },
+
+    apply: function(rule) { run(rule, scope); },
+
+    wall: function(color) {
+      addBox("walls", scope.x, scope.x + scope.width, scope.y, scope.y + scope.height, -wallT, 0, color || scope.color);
+    },
+
+    // Solid block standing out of the wall by depth (ledges, pilasters,
+    // balcony slabs, cornices)
+    extrude: function(depth, color) {
+      addBox("trim", scope.x, scope.x + scope.width, scope.y, scope.y + scope.height, -wallT, depth, color || null);
+    },
+
+    // Recessed, framed window centred in the scope; sizes are fractions of it
+    window: function(opts) {
+      opts = opts || {};
+      var ww = scope.width * (opts.width || 0.5), wh = scope.height * (opts.height || 0.55);
+      var ox0 = scope.x + (scope.width - ww) / 2, ox1 = ox0 + ww;
+      var oy0 = scope.y + scope.height * (opts.sill === undefined ? 0.25 : opts.sill), oy1 = oy0 + wh;
+      var f = Math.min(ww, wh) * 0.08, trim = opts.frameColor || null;
+      wallAround(ox0, ox1, oy0, oy1);
+      addBox("glass", ox0, ox1, oy0, oy1, -wallT * 0.8, -wallT * 0.6, opts.glassColor || null);
+      addBox("trim", ox0, ox0 + f, oy0, oy1, -wallT * 0.6, 0.004, trim);
+      addBox("trim", ox1 - f, ox1, oy0, oy1, -wallT * 0.6, 0.004, trim);
+      addBox("trim", ox0 + f, ox1 - f, oy1 - f, oy1, -wallT * 0.6, 0.004, trim);
+      addBox("trim", ox0 + f, ox1 - f, oy0, oy0 + f, -wallT * 0.6, 0.004, trim);
+      if (opts.mullions !== false) {
+        addBox("trim", (ox0 + ox1) / 2 - f / 3, (ox0 + ox1) / 2 + f / 3, oy0 + f, oy1 - f, -wallT * 0.6, -wallT * 0.3, trim);
+      }
+      // Sill
+      addBox("trim", ox0 - f, ox1 + f, oy0 - f * 0.8, oy0, -wallT * 0.5, wallT * 0.8, trim);
+    },
+
+    // Recessed door standing on the scope's bottom edge
+    door: function(opts) {
+      opts = opts || {};
+      var dw = scope.width * (opts.width || 0.6), dh = scope.height * (opts.height || 0.8);
+      var ox0 = scope.x + (scope.width - dw) / 2, ox1 = ox0 + dw;
+      var oy0 = scope.y, oy1 = oy0 + dh;
+      var f = dw * 0.07, trim = opts.frameColor || null;
+      wallAround(ox0, ox1, oy0, oy1);
+      addBox("doors", ox0, ox1, oy0, oy1, -wallT, -wallT * 0.5, opts.color || null);
+      addBox("trim", ox0 - f, ox0, oy0, oy1 + f, -wallT * 0.5, 0.006, trim);
+      addBox("trim", ox1, ox1 + f, oy0, oy1 + f, -wallT * 0.5, 0.006, trim);
+      addBox("trim", ox0, ox1, oy1, oy1 + f, -wallT * 0.5, 0.006, trim);
+    }
+  };
+  return scope;
+}
+
+// Roof over the footprint: flat slab, gable (rectangles; others fall back
+// to hip) or hip. Triangles are in building space.
+function _buildingRoof(list, poly, wallTop, type, roofHeight, overhang, color) {
+  var n = poly.length, cx = 0, cz = 0;
+  for (var i = 0; i < n; i++) { cx += poly[i][0]; cz += poly[i][1]; }
+  cx /= n; cz /= n;
+  // Grow the outline by the overhang along each corner's bisector
+  var out = [];
+  for (var i = 0; i < n; i++) {
+    var p = poly[i], prev = poly[(i + n - 1) % n], next = poly[(i + 1) % n];
+    var e1x = p[0] - prev[0], e1z = p[1] - prev[1], e2x = next[0] - p[0], e2z = next[1] - p[1];
+    var l1 = Math.sqrt(e1x * e1x + e1z * e1z) || 1, l2 = Math.sqrt(e2x * e2x + e2z * e2z) || 1;
+    var nx = -e1z / l1 - e2z / l2, nz = e1x / l1 + e2x / l2;
+    var nl = Math.sqrt(nx * nx + nz * nz) || 1;
+    var cosHalf = (nx / nl) * (-e2z / l2) + (nz / nl) * (e2x / l2);
+    var d = overhang / Math.max(cosHalf, 0.3);
+    out.push([p[0] + nx / nl * d, p[1] + nz / nl * d]);
+  }
+  var tris = [], y0 = wallTop;
+  var isRect = n === 4 && _buildingIsRect(poly);
+  // Pitched roofs need a convex outline; anything else gets a flat one
+  if (type === "flat" || !_buildingIsConvex(poly)) {
+    var slab = type === "flat" && roofHeight ? roofHeight : 0.03;
+    var y1 = y0 + slab;
+    var ears = _buildingTriangulate(out);
+    for (var i = 0; i < ears.length; i++) {
+      var a = out[ears[i][0]], b = out[ears[i][1]], c = out[ears[i][2]];
+      // Wind the top up and the underside down
+      var up = (b[1] - a[1]) * (c[0] - a[0]) - (b[0] - a[0]) * (c[1] - a[1]) > 0;
+      if (!up) { var t = b; b = c; c = t; }
+      tris.push([a[0], y1, a[1], b[0], y1, b[1], c[0], y1, c[1]]);
+      tris.push([a[0], y0, a[1], c[0], y0, c[1], b[0], y0, b[1]]);
+    }
+    for (var i = 0; i < n; i++) {
+      var a = out[i], b = out[(i + 1) % n];
+      tris.push([a[0], y0, a[1], b[0], y0, b[1], b[0], y1, b[1]]);
+      tris.push([a[0], y0, a[1], b[0], y1, b[1], a[0], y1, a[1]]);
+    }
+    list.push({ facade: -1, color: color, triangles: tris, top: y1 });
+    return;
+  }
+  var rise = roofHeight || 0.35 * Math.min(
+    Math.sqrt((poly[1][0] - poly[0][0]) * (poly[1][0] - poly[0][0]) + (poly[1][1] - poly[0][1]) * (poly[1][1] - poly[0][1])),
+    Math.sqrt((poly[2][0] - poly[1][0]) * (poly[2][0] - poly[1][0]) + (poly[2][1] - poly[1][1]) * (poly[2][1] - poly[1][1]))
+  );
+  var y1 = y0 + rise;
+  if (isRect) {
+    // Ridge along the longer side, centred; it spans the full length for a
+    // gable and stops half the short side from each end for a hip
+    var l01 = Math.hypot(out[1][0] - out[0][0], out[1][1] - out[0][1]);
+    var l12 = Math.hypot(out[2][0] - out[1][0], out[2][1] - out[1][1]);
+    var s = l01 >= l12 ? 0 : 1;
+    var A = out[s], B = out[s + 1], C = out[s + 2], D = out[(s + 3) % 4];
+    var m0 = [(D[0] + A[0]) / 2, (D[1] + A[1]) / 2], m1 = [(B[0] + C[0]) / 2, (B[1] + C[1]) / 2];
+    if (type === "hip") {
+      var long = Math.max(l01, l12), short = Math.min(l01, l12);
+      var k = Math.min(0.5, short / 2 / long);
+      var r0 = [m0[0] + (m1[0] - m0[0]) * k, m0[1] + (m1[1] - m0[1]) * k];
+      var r1 = [m1[0] + (m0[0] - m1[0]) * k, m1[1] + (m0[1] - m1[1]) * k];
+      m0 = r0; m1 = r1;
+    }
+    // Slopes (A-B side and C-D side) and the two ends
+    tris.push([A[0], y0, A[1], m1[0], y1, m1[1], m0[0], y1, m0[1]]);
+    tris.push([A[0], y0, A[1], B[0], y0, B[1], m1[0], y1, m1[1]]);
+    tris.push([C[0], y0, C[1], m0[0], y1, m0[1], m1[0], y1, m1[1]]);
+    tris.push([C[0], y0, C[1], D[0], y0, D[1], m0[0], y1, m0[1]]);
+    tris.push([B[0], y0, B[1], C[0], y0, C[1], m1[0], y1, m1[1]]);
+    tris.push([D[0], y0, D[1], A[0], y0, A[1], m0[0], y1, m0[1]]);
+    // Soffit closing the underside
+    tris.push([A[0], y0, A[1], C[0], y0, C[1], B[0], y0, B[1]]);
+    tris.push([A[0], y0, A[1], D[0], y0, D[1], C[0], y0, C[1]]);
+  } else {
+    // Pyramid to the centre for any other outline
+    for (var i = 0; i < n; i++) {
+      var a = out[i], b = out[(i + 1) % n];
+      tris.push([a[0], y0, a[1], b[0], y0, b[1], cx, y1, cz]);
+      tris.push([cx, y0, cz, b[0], y0, b[1], a[0], y0, a[1]]);
+    }
+  }
+  list.push({ facade: -1, color: color, triangles: tris, top: y1 });
+}
+
+function _buildingIsConvex(poly) {
+  var n = poly.length, sign = 0;
+  for (var i = 0; i < n; i++) {
+    var a = poly[i], b = poly[(i + 1) % n], c = poly[(i + 2) % n];
+    var cross = (b[0] - a[0]) * (c[1] - b[1]) - (b[1] - a[1]) * (c[0] - b[0]);
+    if (Math.abs(cross) < 1e-12) continue;
+    if (sign === 0) sign = cross > 0 ? 1 : -1;
+    else if ((cross > 0 ? 1 : -1) !== sign) return false;
+  }
+  return true;
+}
+
+// Ear clipping for a simple polygon [[x,z], ...]; returns index triples
+function _buildingTriangulate(poly) {
+  var idx = [], area = 0, n = poly.length;
+  for (var i = 0; i < n; i++) {
+    idx.push(i);
+    var a = poly[i], b = poly[(i + 1) % n];
+    area += a[0] * b[1] - b[0] * a[1];
+  }
+  var orient = area > 0 ? 1 : -1;
+  var cross = function(a, b, c) {
+    return ((b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0])) * orient;
+  };
+  var out = [], guard = n * n;
+  while (idx.length > 3 && guard-- > 0) {
+    for (var k = 0; k < idx.length; k++) {
+      var i0 = idx[(k + idx.length - 1) % idx.length], i1 = idx[k], i2 = idx[(k + 1) % idx.length];
+      var a = poly[i0], b = poly[i1], c = poly[i2];
+      if (cross(a, b, c) <= 0) continue;
+      var inside = false;
+      for (var m = 0; m < idx.length && !inside; m++) {
+        var j = idx[m];
+        if (j === i0 || j === i1 || j === i2) continue;
+        var p = poly[j];
+        inside = cross(a, b, p) >= 0 && cross(b, c, p) >= 0 && cross(c, a, p) >= 0;
+      }
+      if (inside) continue;
+      out.push([i0, i1, i2]);
+      idx.splice(k, 1);
+      break;
+    }
+  }
+  if (idx.length === 3) out.push([idx[0], idx[1], idx[2]]);
+  return out;
+}
+
+function _buildingIsRect(poly) {
+  for (var i = 0; i < 4; i++) {
+    var a = poly[i], b = poly[(i + 1) % 4], c = poly[(i + 2) % 4];
+    var dot = (b[0] - a[0]) * (c[0] - b[0]) + (b[1] - a[1]) * (c[1] - b[1]);
+    if (Math.abs(dot) > 1e-6) return false;
+  }
+  return true;
+}
+
+// =========================================================================
+// Texture baking
+// setTextureResolution(size) gives the layer UVs and bakes its colors into a
+// size x size atlas instead of leaving them in vertex colors. Each generator
+// call is a bake source with its own charts: sdfMesh and loose triangles are
+// box-projected (one chart per axis direction), grid is planar, lathe and
+// extrudePath unwrap their own parameters. Charts are packed at the end of
+// the run, then colorFn is sampled once per texel.
+// =========================================================================
+var BAKE_SIZES = [256, 512, 1024, 2048, 4096];
+// Texels around each chart, filled by dilation so filtering never reads
+// across into a neighbouring chart
+var BAKE_PADDING = 4;
+var _bakeSize = 0;
+// { mode: "box" | "planar" | "explicit", colorFn, inverse, mirrored }
+var _bakeSources = [];
+var _bakeSource = -1;
+var _looseSource = -1, _looseMatrix = null;
+// { source, axis, sign } — axis -1 for explicit charts, which have no depth
+var _charts = [];
+var _chartIds = new Map();
+// Per triangle: chart id and corner UVs in model units, in index order
+var _triCharts = new Int32Array(0);
+var _triUVs = new Float32Array(0);
+// Corner UVs for the next triangle, from generators with explicit mapping
+var _pendingUV = null;
+var _bakeCorners = [0, 0, 0, 0, 0, 0, 0, 0, 0];
+
+function setTextureResolution(size) {
+  if (BAKE_SIZES.indexOf(size) < 0) {
+    throw new Error("setTextureResolution: size must be one of " + BAKE_SIZES.join(", "));
+  }
+  if (_indexCount > 0) {
+    throw new Error("setTextureResolution: call it before emitting any geometry");
+  }
+  _bakeSize = size;
+}
+
+function _resetBake() {
+  _bakeSize = 0;
+  _bakeSources = [];
+  _bakeSource = -1;
+  _looseSource = -1;
+  _looseMatrix = null;
+  _charts = [];
+  _chartIds = new Map();
+  _triCharts = new Int32Array(0);
+  _triUVs = new Float32Array(0);
+  _pendingUV = null;
+}
+
+// Inverse of an affine matrix in the 3x4 layout
+function _invertAffine(m) {
+  var a = m[0], b = m[1], c = m[2];
+  var d = m[4], e = m[5], f = m[6];
+  var g = m[8], h = m[9], i = m[10];
+  var c00 = e*i - f*h, c01 = f*g - d*i, c02 = d*h - e*g;
+  var det = a*c00 + b*c01 + c*c02;
+  var s = det === 0 ? 0 : 1 / det;
+  var r = [
+    c00*s, (c*h - b*i)*s, (b*f - c*e)*s, 0,
+    c01*s, (a*i - c*g)*s, (c*d - a*f)*s, 0,
+    c02*s, (b*g - a*h)*s, (a*e - b*d)*s, 0
+  ];
+  for (var row = 0; row < 12; row += 4) {
+    r[row+3] = -(r[row]*m[3] + r[row+1]*m[7] + r[row+2]*m[11]);
+  }
+  return r;
+}
+
+// Start a bake source for one generator call; returns the previous one so
+// the caller can restore it
+function _beginBakeSource(mode, colorFn) {
+  var previous = _bakeSource;
+  if (_bakeSize > 0 && !_definingInstance) {
+    _bakeSource = _bakeSources.length;
+    _bakeSources.push({
+      mode: mode, colorFn: colorFn || null,
+      inverse: _invertAffine(_matrix), mirrored: _mirrored
+    });
+  }
+  return previous;
+}
+
+// Triangles emitted outside a generator share a box-projected source per
+// transform
+function _looseBakeSource() {
+  if (_looseSource < 0 || _looseMatrix !== _matrix) {
+    _looseSource = _bakeSources.length;
+    _looseMatrix = _matrix;
+    _bakeSources.push({
+      mode: "box", colorFn: null,
+      inverse: _invertAffine(_matrix), mirrored: _mirrored
+    });
+  }
+  return _looseSource;
+}
+
+function _chartFor(source, axis, sign) {
+  var key = source * 8 + (axis + 1) * 2 + (sign > 0 ? 1 : 0);
+  var id = _chartIds.get(key);
+  if (id === undefined) {
+    id = _charts.length;
+    _charts.push({ source: source, axis: axis, sign: sign });
+    _chartIds.set(key, id);
+  }
+  return id;
+}
+
+// Explicit corner UVs for the next emitTriangle, in model units
+function _setPendingUV(u1, v1, u2, v2, u3, v3) {
+  if (_bakeSize > 0) _pendingUV = [u1, v1, u2, v2, u3, v3];
+}
+
+// emitQuad with explicit UVs per corner (p = [x,y,z], t = [u,v])
+function _emitQuadUV(p1, p2, p3, p4, t1, t2, t3, t4, r, g, b) {
+  _setPendingUV(t1[0], t1[1], t2[0], t2[1], t3[0], t3[1]);
+  emitTriangle(p1[0],p1[1],p1[2], p2[0],p2[1],p2[2], p3[0],p3[1],p3[2], r,g,b);
+  _setPendingUV(t1[0], t1[1], t3[0], t3[1], t4[0], t4[1]);
+  emitTriangle(p1[0],p1[1],p1[2], p3[0],p3[1],p3[2], p4[0],p4[1],p4[2], r,g,b);
+}
+
+// Record the chart and corner UVs of the triangle just pushed (final,
+// possibly mirrored, corner order)
+function _recordBakeTriangle(a, b, c) {
+  var t = _indexCount / 3 - 1;
+  if (t >= _triCharts.length) {
+    var cap = Math.max(1024, _triCharts.length * 2);
+    var charts = new Int32Array(cap), uvs = new Float32Array(cap * 6);
+    charts.set(_triCharts);
+    uvs.set(_triUVs);
+    _triCharts = charts;
+    _triUVs = uvs;
+  }
+  var src = _bakeSource >= 0 ? _bakeSource : _looseBakeSource();
+  var source = _bakeSources[src];
+  var pending = _pendingUV;
+  _pendingUV = null;
+  var o = t * 6;
+  if (source.mode === "explicit" && pending) {
+    _triCharts[t] = _chartFor(src, -1, 1);
+    _triUVs[o] = pending[0]; _triUVs[o+1] = pending[1];
+    // _pushTriangle swapped b and c for mirrored transforms
+    var bi = _mirrored ? 4 : 2, ci = _mirrored ? 2 : 4;
+    _triUVs[o+2] = pending[bi]; _triUVs[o+3] = pending[bi+1];
+    _triUVs[o+4] = pending[ci]; _triUVs[o+5] = pending[ci+1];
+    return;
+  }
+  // Corners back in the source's model space
+  var inv = source.inverse, m = _bakeCorners, ids = [a, b, c];
+  for (var k = 0; k < 3; k++) {
+    var p = ids[k] * 3;
+    var x = _meshPositions[p], y = _meshPositions[p+1], z = _meshPositions[p+2];
+    m[k*3]   = inv[0]*x + inv[1]*y + inv[2]*z + inv[3];
+    m[k*3+1] = inv[4]*x + inv[5]*y + inv[6]*z + inv[7];
+    m[k*3+2] = inv[8]*x + inv[9]*y + inv[10]*z + inv[11];
+  }
+  var axis = 1, sign = 1;
+  if (source.mode !== "planar") {
+    var ux = m[3]-m[0], uy = m[4]-m[1], uz = m[5]-m[2];
+    var vx = m[6]-m[0], vy = m[7]-m[1], vz = m[8]-m[2];
+    var nx = uy*vz - uz*vy, ny = uz*vx - ux*vz, nz = ux*vy - uy*vx;
+    // Model-space winding is reversed under a mirroring transform
+    if (source.mirrored) { nx = -nx; ny = -ny; nz = -nz; }
+    var ax = Math.abs(nx), ay = Math.abs(ny), az = Math.abs(nz);
+    if (ax >= ay && ax >= az) { axis = 0; sign = nx >= 0 ? 1 : -1; }
+    else if (ay >= az) { axis = 1; sign = ny >= 0 ? 1 : -1; }
+    else { axis = 2; sign = nz >= 0 ? 1 : -1; }
+  }
+  _triCharts[t] = _chartFor(src, axis, sign);
+  // Project onto the two remaining axes
+  var ua = axis === 0 ? 2 : 0, va = axis === 1 ? 2 : 1;
+  for (var k = 0; k < 3; k++) {
+    _triUVs[o + k*2] = m[k*3 + ua];
+    _triUVs[o + k*2 + 1] = m[k*3 + va];
+  }
+}
+
+// Place chart rectangles (w, h in texels) on shelves; false if they overflow
+function _packCharts(rects, size) {
+  var order = rects.map(function(_, i) { return i; });
+  order.sort(function(i, j) { return rects[j].h - rects[i].h; });
+  var x = 0, y = 0, shelf = 0;
+  for (var n = 0; n < order.length; n++) {
+    var r = rects[order[n]];
+    if (r.w > size) return false;
+    if (x + r.w > size) { x = 0; y += shelf; shelf = 0; }
+    if (y + r.h > size) return false;
+    r.x = x; r.y = y;
+    x += r.w;
+    shelf = Math.max(shelf, r.h);
+  }
+  return true;
+}
+
+function _linearToSrgbByte(c) {
+  c = c <= 0 ? 0 : c >= 1 ? 1 : c;
+  var s = c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+  return Math.round(s * 255);
+}
+
+// Split vertices along chart seams, give every vertex its atlas UV and bake
+// the colors. Returns the new vertex buffers and the RGBA texture.
+function _bakeTexture(indices) {
+  var size = _bakeSize, triCount = indices.length / 3;
+  _setProgress("bake", 0, 0);
+
+  // 1. One vertex per (vertex, chart, uv) combination
+  var remap = new Map();
+  var sourceOf = [], chartOf = [], localUV = [];
+  var newIndices = new Uint32Array(indices.length);
+  var positions = [], colors = [], normals = [];
+  for (var t = 0; t < triCount; t++) {
+    var chart = _triCharts[t];
+    for (var k = 0; k < 3; k++) {
+      var v = indices[t*3 + k];
+      var u = _triUVs[t*6 + k*2], w = _triUVs[t*6 + k*2 + 1];
+      var key = v + "|" + chart + "|" + Math.round(u / WELD_POSITION_EPS) + "," + Math.round(w / WELD_POSITION_EPS);
+      var idx = remap.get(key);
+      if (idx === undefined) {
+        idx = chartOf.length;
+        remap.set(key, idx);
+        chartOf.push(chart);
+        localUV.push(u, w);
+        for (var c = 0; c < 3; c++) {
+          positions.push(_meshPositions[v*3 + c]);
+          colors.push(_meshColors[v*3 + c]);
+          normals.push(_meshNormals[v*3 + c]);
+        }
+      }
+      newIndices[t*3 + k] = idx;
+    }
+  }
+  var vertexCount = chartOf.length;
+
+  // 2. Chart extents in model units
+  var rects = [];
+  for (var ci = 0; ci < _charts.length; ci++) {
+    rects.push({ minU: Infinity, minV: Infinity, maxU: -Infinity, maxV: -Infinity, x: 0, y: 0, w: 0, h: 0 });
+  }
+  for (var i = 0; i < vertexCount; i++) {
+    var r = rects[chartOf[i]];
+    var u = localUV[i*2], w = localUV[i*2 + 1];
+    if (u < r.minU) r.minU = u;
+    if (u > r.maxU) r.maxU = u;
+    if (w < r.minV) r.minV = w;
+    if (w > r.maxV) r.maxV = w;
+  }
+  var area = 0;
+  for (var ci = 0; ci < rects.length; ci++) {
+    var r = rects[ci];
+    if (r.minU > r.maxU) { r.minU = r.maxU = r.minV = r.maxV = 0; }
+    area += (r.maxU - r.minU) * (r.maxV - r.minV);
+  }
+
+  // 3. Texels per model unit: start from ~70% fill, shrink until it packs
+  var scale = Math.sqrt(0.7 * size * size / Math.max(area, 1e-12));
+  for (var attempt = 0; attempt < 200; attempt++) {
+    for (var ci = 0; ci < rects.length; ci++) {
+      var r = rects[ci];
+      r.w = Math.ceil((r.maxU - r.minU) * scale) + 1 + 2 * BAKE_PADDING;
+      r.h = Math.ceil((r.maxV - r.minV) * scale) + 1 + 2 * BAKE_PADDING;
+    }
+    if (_packCharts(rects, size)) break;
+    scale *= 0.9;
+  }
+
+  // Vertex positions in texels, and the final UVs
+  var tx = new Float32Array(vertexCount * 2);
+  var uvs = new Float32Array(vertexCount * 2);
+  for (var i = 0; i < vertexCount; i++) {
+    var r = rects[chartOf[i]];
+    tx[i*2] = r.x + BAKE_PADDING + 0.5 + (localUV[i*2] - r.minU) * scale;
+    tx[i*2 + 1] = r.y + BAKE_PADDING + 0.5 + (localUV[i*2 + 1] - r.minV) * scale;
+    uvs[i*2] = tx[i*2] / size;
+    uvs[i*2 + 1] = tx[i*2 + 1] / size;
+  }
+
+  // 4. Rasterize every triangle in texel space. Box charts keep the
+  // outermost surface where a concave shape projects onto itself.
+  var data = new Uint8Array(size * size * 4);
+  var depth = new Float32Array(size * size).fill(-Infinity);
+  var reportEvery = Math.max(1, Math.floor(triCount / 50));
+  for (var t = 0; t < triCount; t++) {
+    if (t % reportEvery === 0) _setProgress("bake", t, triCount);
+    var a = newIndices[t*3], b = newIndices[t*3 + 1], c = newIndices[t*3 + 2];
+    var chart = _charts[chartOf[a]], source = _bakeSources[chart.source];
+    var inv = source.inverse, colorFn = source.colorFn;
+    var ax = tx[a*2], ay = tx[a*2 + 1];
+    var bx = tx[b*2], by = tx[b*2 + 1];
+    var cx = tx[c*2], cy = tx[c*2 + 1];
+    var den = (by - cy) * (ax - cx) + (cx - bx) * (ay - cy);
+    if (Math.abs(den) < 1e-12) continue;
+    var x0 = Math.max(0, Math.floor(Math.min(ax, bx, cx)));
+    var x1 = Math.min(size - 1, Math.ceil(Math.max(ax, bx, cx)));
+    var y0 = Math.max(0, Math.floor(Math.min(ay, by, cy)));
+    var y1 = Math.min(size - 1, Math.ceil(Math.max(ay, by, cy)));
+    for (var py = y0; py <= y1; py++) {
+      for (var px = x0; px <= x1; px++) {
+        var sx = px + 0.5, sy = py + 0.5;
+        var wa = ((by - cy) * (sx - cx) + (cx - bx) * (sy - cy)) / den;
+        var wb = ((cy - ay) * (sx - cx) + (ax - cx) * (sy - cy)) / den;
+        var wc = 1 - wa - wb;
+        if (wa < -1e-4 || wb < -1e-4 || wc < -1e-4) continue;
+        // World position of the texel, back in the source's model space
+        var wx = 0, wy = 0, wz = 0;
+        for (var k = 0; k < 3; k++) {
+          var vi = k === 0 ? a : k === 1 ? b : c;
+          var wk = k === 0 ? wa : k === 1 ? wb : wc;
+          wx += positions[vi*3] * wk;
+          wy += positions[vi*3 + 1] * wk;
+          wz += positions[vi*3 + 2] * wk;
+        }
+        var mx = inv[0]*wx + inv[1]*wy + inv[2]*wz + inv[3];
+        var my = inv[4]*wx + inv[5]*wy + inv[6]*wz + inv[7];
+        var mz = inv[8]*wx + inv[9]*wy + inv[10]*wz + inv[11];
+        var p = py * size + px;
+        var d = chart.axis < 0 ? 0 : chart.sign * (chart.axis === 0 ? mx : chart.axis === 1 ? my : mz);
+        if (d < depth[p]) continue;
+        depth[p] = d;
+        var col;
+        if (colorFn) {
+          col = source.mode === "planar" ? colorFn(mx, mz) : colorFn(mx, my, mz);
+        } else {
+          col = [0, 0, 0];
+          for (var ch = 0; ch < 3; ch++) {
+            col[ch] = colors[a*3 + ch] * wa + colors[b*3 + ch] * wb + colors[c*3 + ch] * wc;
+          }
+        }
+        data[p*4] = _linearToSrgbByte(col[0]);
+        data[p*4 + 1] = _linearToSrgbByte(col[1]);
+        data[p*4 + 2] = _linearToSrgbByte(col[2]);
+        data[p*4 + 3] = 255;
+      }
+    }
+  }
+
+  // 5. Grow each chart into its padding, one texel ring per pass
+  for (var pass = 0; pass < BAKE_PADDING; pass++) {
+    var grown = data.slice();
+    for (var py = 0; py < size; py++) {
+      for (var px = 0; px < size; px++) {
+        var p = py * size + px;
+        if (data[p*4 + 3]) continue;
+        var n = 0, sr = 0, sg = 0, sb = 0;
+        for (var dir = 0; dir < 4; dir++) {
+          var qx = px + (dir === 0 ? 1 : dir === 1 ? -1 : 0);
+          var qy = py + (dir === 2 ? 1 : dir === 3 ? -1 : 0);
+          if (qx < 0 || qy < 0 || qx >= size || qy >= size) continue;
+          var q = (qy * size + qx) * 4;
+          if (!data[q + 3]) continue;
+          sr += data[q]; sg += data[q + 1]; sb += data[q + 2];
+          n++;
+        }
+        if (n === 0) continue;
+        grown[p*4] = sr / n; grown[p*4 + 1] = sg / n; grown[p*4 + 2] = sb / n;
+        grown[p*4 + 3] = 255;
+      }
+    }
+    data = grown;
+  }
+  _setProgress("bake", triCount, triCount);
+
+  return {
+    positions: new Float32Array(positions), colors: new Float32Array(colors),
+    normals: new Float32Array(normals), indices: newIndices, uvs: uvs,
+    vertexCount: vertexCount, texture: { size: size, data: data }
+  };
+}
+
+// =========================================================================
+// Instancing
+// defineInstance(buildFn) runs buildFn once, at the origin, into a separate
+// prototype mesh; instance(proto, x,y,z, rotY, scale) records a placement
+// under the current transform. Each prototype renders as one InstancedMesh,
+// so a thousand trees cost one tree's vertices.
+// =========================================================================
+var _prototypes = [];
+var _definingInstance = false;
+
+function defineInstance(buildFn) {
+  if (typeof buildFn !== "function") {
+    throw new Error("defineInstance: expected a function that builds the part");
+  }
+  var proto = { index: _prototypes.length };
+  var entry = {
+    meshPositions: new Float32Array(0), meshColors: new Float32Array(0),
+    meshNormals: new Float32Array(0), meshIndices: new Uint32Array(0),
+    meshVertexCount: 0, matrices: [], part: _currentPart,
+    hasCustomNormals: false
+  };
+  _prototypes.push(entry);
+  // Slab workers past the first never emit outside sdfMesh, so they skip
+  // the build. random() is restored afterwards either way, keeping every
+  // worker on the same sequence.
+  if (_slab && _slab.index > 0) return proto;
+
+  var saved = {
+    meshCap: _meshCap, meshCount: _meshCount, positions: _meshPositions,
+    colors: _meshColors, normals: _meshNormals, indexCap: _indexCap,
+    indexCount: _indexCount, indices: _meshIndices, weldMap: _weldMap,
+    matrix: _matrix, matrixStack: _matrixStack, seed: _seed,
+    slab: _slab, seamVertices: _seamVertices,
+    // Restored, not cleared, so a defineInstance nested in another build
+    // hands its outer build back unchanged
+    definingInstance: _definingInstance, hasCustomNormals: _hasCustomNormals
+  };
+  _resetMeshBuffers();
+  _matrixStack = [];
+  _setMatrix([1,0,0,0, 0,1,0,0, 0,0,1,0]);
+  // Prototypes are meshed whole by the first worker
+  _slab = null;
+  _definingInstance = true;
+  // The prototype's shading is its own, not the layer's
+  _hasCustomNormals = false;
+  try {
+    buildFn();
+    entry.meshPositions = _meshPositions.slice(0, _meshCount * 3);
+    entry.meshColors = _meshColors.slice(0, _meshCount * 3);
+    entry.meshNormals = _meshNormals.slice(0, _meshCount * 3);
+    entry.meshIndices = _meshIndices.slice(0, _indexCount);
+    entry.meshVertexCount = _meshCount;
+    entry.hasCustomNormals = _hasCustomNormals;
+  } finally {
+    _definingInstance = saved.definingInstance;
+    _hasCustomNormals = saved.hasCustomNormals;
+    _meshCap = saved.meshCap; _meshCount = saved.meshCount;
+    _meshPositions = saved.positions; _meshColors = saved.colors;
+    _meshNormals = saved.normals; _indexCap = saved.indexCap;
+    _indexCount = saved.indexCount; _meshIndices = saved.indices;
+    _weldMap = saved.weldMap; _matrixStack = saved.matrixStack;
+    _setMatrix(saved.matrix);
+    _seed = saved.seed; _slab = saved.slab; _seamVertices = saved.seamVertices;
+  }
+  return proto;
+}
+
+function instance(proto, x, y, z, rotY, s) {
+  if (!proto || proto.index === undefined || !_prototypes[proto.index]) {
+    throw new Error("instance: first argument must come from defineInstance()");
+  }
+  if (_definingInstance) {
+    throw new Error("instance: cannot place instances inside defineInstance()");
+  }
+  rotY = rotY || 0;
+  s = s === undefined ? 1 : s;
+  var c = Math.cos(rotY) * s, sn = Math.sin(rotY) * s;
+  var m = _multiplyAffine(_matrix, [c,0,sn,x, 0,s,0,y, -sn,0,c,z]);
+  // Stored column-major (three.js / glTF order)
+  _prototypes[proto.index].matrices.push(
+    m[0], m[4], m[8], 0,
+    m[1], m[5], m[9], 0,
+    m[2], m[6], m[10], 0,
+    m[3], m[7], m[11], 1
+  );
+}
+
+// PARAMS is read-only, and reading a name the layer never declared throws
+// instead of quietly giving undefined (and NaN geometry). toJSON and then
+// are probed by JSON.stringify and Promise.resolve, so they stay undefined.
+var _PARAMS_PROBES = { toJSON: true, then: true };
+function _paramsObject(values) {
+  for (var k in values) {
+    if (Array.isArray(values[k])) Object.freeze(values[k]);
+  }
+  return new Proxy(Object.freeze(values), {
+    get: function(target, name) {
+      if (typeof name === "string" && !(name in target) && !_PARAMS_PROBES[name]) {
+        throw new Error("PARAMS." + name + " is not declared; add it to the params of generate_3d_points");
+      }
+      return target[name];
+    }
+  });
+}
+
+self.onmessage = function(e) {
+  const { code, seed, sceneBounds, layerMetas, params, slab } = e.data;
+  _seed = seed || 42;
+  _seedGradientNoise(_seed);
+  _slab = slab || null;
+  _emitting = !_slab || _slab.index === 0;
+  _seamVertices = [];
+  _progressCall = "";
+  _lastProgressTime = 0;
+  _matrixStack = [];
+  _setMatrix([1,0,0,0, 0,1,0,0, 0,0,1,0]);
 
   // Build LAYERS object from previous layer metadata for spatial referencing
   var LAYERS = {};
@@ -791,15 +4783,27 @@ self.onmessage = function(e) {
         description: lm.description,
         vertexCount: lm.meshVertexCount
       };
+      var hd = lm.heightmap;
+      if (hd) {
+        LAYERS[lm.id].heightmap = new Heightmap(hd.x0, hd.z0, hd.x1, hd.z1, hd.resX, hd.resZ, hd.data);
+      }
+      _addLayerQueries(LAYERS[lm.id], lm.id, lm.geometry, lm.geometryError);
     }
   }
-  _meshCount = 0;
-  _meshCap = 300000;
-  _meshPositions = new Float32Array(_meshCap * 3);
-  _meshColors = new Float32Array(_meshCap * 3);
-  _meshNormals = new Float32Array(_meshCap * 3);
+  _layers = LAYERS;
+  var PARAMS = _paramsObject(params || {});
+  _resetMeshBuffers();
+  _prototypes = [];
+  _definingInstance = false;
   _hasCustomNormals = false;
+  _sdfEvaluations = 0;
+  _sdfGridPoints = 0;
   _materialProps = {};
+  _parts = [];
+  _currentPart = -1;
+  _partRuns = [];
+  _layerHeightmap = null;
+  _resetBake();
 
   const SCENE_MIN_X = sceneBounds.min[0];
   const SCENE_MAX_X = sceneBounds.max[0];
@@ -815,41 +4819,63 @@ self.onmessage = function(e) {
     const fn = new Function(
       "emitTriangle", "emitQuad",
       "box", "extrudePath", "grid", "sdfMesh", "lathe",
+      "catmullRom", "bezierPath", "helixPath", "loft", "tree",
+      "building", "Heightmap", "scatter",
       "sdSphere", "sdBox", "sdCapsule", "sdTorus", "sdCone", "sdPlane", "sdCylinder",
       "sdEllipsoid", "sdOctahedron", "sdHexPrism", "sdTaperedCylinder",
       "opUnion", "opSubtract", "opIntersect",
       "opSmoothUnion", "opSmoothSubtract", "opSmoothIntersect",
       "opRound", "opDisplace",
       "opXOR", "opChamfer", "opStairs", "opShell", "opOnion",
+      "sd2Circle", "sd2Box", "sd2Polygon", "sd2Star", "sd2Arc", "sd2Bezier",
+      "opExtrude", "opRevolve",
       "domainMirror", "domainRepeat", "domainTwist", "domainBend", "domainRotateY",
       "noise2D", "noise3D", "fbm2D", "fbm3D", "worley2D", "worley3D",
+      "perlin2D", "perlin3D", "simplex2D", "simplex3D",
+      "perlin2DDeriv", "perlin3DDeriv", "simplex2DDeriv", "simplex3DDeriv",
+      "ridged2D", "ridged3D", "billow2D", "billow3D",
+      "domainWarp2D", "domainWarp3D",
       "random", "Math",
       "SCENE_MIN_X", "SCENE_MAX_X", "SCENE_MIN_Y", "SCENE_MAX_Y",
       "SCENE_MIN_Z", "SCENE_MAX_Z", "SCENE_CENTER_X", "SCENE_CENTER_Y",
       "SCENE_CENTER_Z",
       "sphereMesh", "boxMesh", "cylinderMesh", "torusMesh",
-      "setMaterial",
-      "LAYERS",
+      "setMaterial", "beginPart", "endPart", "setTextureResolution",
+      "pushTransform", "popTransform", "translate",
+      "rotateX", "rotateY", "rotateZ", "scale",
+      "defineInstance", "instance",
+      "LAYERS", "PARAMS",
       code
     );
     fn(
       emitTriangle, emitQuad,
       box, extrudePath, grid, sdfMesh, lathe,
+      catmullRom, bezierPath, helixPath, loft, tree,
+      building, Heightmap, scatter,
       sdSphere, sdBox, sdCapsule, sdTorus, sdCone, sdPlane, sdCylinder,
       sdEllipsoid, sdOctahedron, sdHexPrism, sdTaperedCylinder,
       opUnion, opSubtract, opIntersect,
       opSmoothUnion, opSmoothSubtract, opSmoothIntersect,
       opRound, opDisplace,
       opXOR, opChamfer, opStairs, opShell, opOnion,
+      sd2Circle, sd2Box, sd2Polygon, sd2Star, sd2Arc, sd2Bezier,
+      opExtrude, opRevolve,
       domainMirror, domainRepeat, domainTwist, domainBend, domainRotateY,
       noise2D, noise3D, fbm2D, fbm3D, worley2D, worley3D,
+      perlin2D, perlin3D, simplex2D, simplex3D,
+      perlin2DDeriv, perlin3DDeriv, simplex2DDeriv, simplex3DDeriv,
+      ridged2D, ridged3D, billow2D, billow3D,
+      domainWarp2D, domainWarp3D,
       _mulberry32, Math,
       SCENE_MIN_X, SCENE_MAX_X, SCENE_MIN_Y, SCENE_MAX_Y,
       SCENE_MIN_Z, SCENE_MAX_Z, SCENE_CENTER_X, SCENE_CENTER_Y,
       SCENE_CENTER_Z,
       sphereMesh, boxMesh, cylinderMesh, torusMesh,
-      setMaterial,
-      LAYERS
+      setMaterial, beginPart, endPart, setTextureResolution,
+      pushTransform, popTransform, translate,
+      rotateX, rotateY, rotateZ, scale,
+      defineInstance, instance,
+      LAYERS, PARAMS
     );
   } catch (err) {
     // Send structured error back with partial progress info
@@ -862,18 +4888,82 @@ self.onmessage = function(e) {
     return;
   }
 
-  const meshPositions = _meshPositions.slice(0, _meshCount * 3);
-  const meshColors = _meshColors.slice(0, _meshCount * 3);
-  const meshNormals = _meshNormals.slice(0, _meshCount * 3);
-  const transferables = [meshPositions.buffer, meshColors.buffer];
-  if (_hasCustomNormals) transferables.push(meshNormals.buffer);
+  var meshPositions, meshColors, meshNormals, meshUVs = null, bakedTexture = null;
+  var meshVertexCount = _meshCount, rawIndices = _meshIndices.subarray(0, _indexCount);
+  if (_bakeSize > 0 && _indexCount > 0) {
+    try {
+      var baked = _bakeTexture(rawIndices);
+    } catch (err) {
+      // colorFn runs again per texel, so it can still throw here
+      self.postMessage({
+        error: true,
+        message: err.message || "Unknown runtime error",
+        stack: err.stack || "",
+        meshVertexCount: _meshCount
+      });
+      return;
+    }
+    meshPositions = baked.positions;
+    meshColors = baked.colors;
+    meshNormals = baked.normals;
+    meshUVs = baked.uvs;
+    bakedTexture = baked.texture;
+    meshVertexCount = baked.vertexCount;
+    rawIndices = baked.indices;
+  } else {
+    meshPositions = _meshPositions.slice(0, _meshCount * 3);
+    meshColors = _meshColors.slice(0, _meshCount * 3);
+    meshNormals = _meshNormals.slice(0, _meshCount * 3);
+  }
+  // A part left open at the end simply runs to the last triangle
+  const sortedByPart = _sortIndicesByPart(rawIndices);
+  const meshIndices = sortedByPart.indices;
+  const groups = sortedByPart.groups;
+  const seamVertices = new Uint32Array(_seamVertices);
+  const transfer = [meshPositions.buffer, meshColors.buffer, meshNormals.buffer, meshIndices.buffer, seamVertices.buffer];
+  if (bakedTexture) transfer.push(meshUVs.buffer, bakedTexture.data.buffer);
+  var heightmap = null;
+  if (_layerHeightmap) {
+    var hm = _layerHeightmap;
+    heightmap = { x0: hm.x0, z0: hm.z0, x1: hm.x1, z1: hm.z1, resX: hm.resX, resZ: hm.resZ, data: hm.data.slice() };
+    transfer.push(heightmap.data.buffer);
+  }
+  // Prototypes nobody placed are dropped
+  const instances = [];
+  for (var p = 0; p < _prototypes.length; p++) {
+    var proto = _prototypes[p];
+    if (proto.matrices.length === 0 || proto.meshVertexCount === 0) continue;
+    var instanceMatrices = new Float32Array(proto.matrices);
+    var placed = {
+      meshPositions: proto.meshPositions, meshColors: proto.meshColors,
+      meshNormals: proto.meshNormals, meshIndices: proto.meshIndices,
+      meshVertexCount: proto.meshVertexCount,
+      instanceMatrices: instanceMatrices,
+      instanceCount: proto.matrices.length / 16
+    };
+    if (proto.part >= 0) placed.group = proto.part;
+    if (proto.hasCustomNormals) placed.hasCustomNormals = true;
+    instances.push(placed);
+    transfer.push(
+      proto.meshPositions.buffer, proto.meshColors.buffer, proto.meshNormals.buffer,
+      proto.meshIndices.buffer, instanceMatrices.buffer
+    );
+  }
   self.postMessage(
-    { meshPositions, meshColors, meshVertexCount: _meshCount, meshNormals: _hasCustomNormals ? meshNormals : null, hasCustomNormals: _hasCustomNormals, materialProps: _materialProps },
-    transferables
+    { meshPositions, meshColors, meshNormals, meshIndices, meshVertexCount, meshUVs, bakedTexture, seamVertices, groups, instances, heightmap, hasCustomNormals: _hasCustomNormals, materialProps: _materialProps, stats: { sdfEvaluations: _sdfEvaluations, sdfGridPoints: _sdfGridPoints } },
+    transfer
   );
 };
 `;
 
+import {
+  type LayerParam,
+  type ParamValues,
+  resolveParamValues,
+  sandboxParamValues,
+  validateParams,
+} from "@/lib/procedural/params";
+import { runPooledWorker, setWorkerPoolSize } from "@/lib/procedural/pool";
 import { validateMeshOutput } from "@/lib/sandbox/outputValidation";
 import { validateCode } from "@/lib/sandbox/validate";
 
@@ -889,129 +4979,370 @@ function getWorkerBlobUrl(): string {
 
 let _nextLayerId = 0;
 
-export function executeProceduralCode(
+const EXECUTION_TIMEOUT_MS = 300000;
+
+// Only code that calls sdfMesh (directly or through the convenience
+// helpers) has work to split across slab workers
+const SDF_MESH_CALL = /\b(sdf|sphere|box|cylinder|torus)Mesh\s*\(/;
+// Baking needs every triangle in one worker to pack a single atlas
+const TEXTURE_BAKE_CALL = /\bsetTextureResolution\s*\(/;
+// Layer triangles are only worth copying into the worker when queried,
+// directly or by scatter({ onLayer })
+const LAYER_QUERY_CALL =
+  /\.(raycast|heightAt|closestPoint|sdf|colorAt)\s*\(|\bonLayer\b/;
+
+/**
+ * A layer's metadata as sent to the worker: with its triangles when the
+ * code queries layers and names this one's id, otherwise without. A layer
+ * whose geometry cannot be built gets the reason instead, which the
+ * sandbox throws when the layer is queried.
+ */
+function workerLayerMeta(
+  code: string,
+  { geometry, ...meta }: LayerMeta,
+): Omit<LayerMeta, "geometry"> & {
+  geometry?: LayerGeometry;
+  geometryError?: string;
+} {
+  const named = code.includes(`"${meta.id}"`) || code.includes(`'${meta.id}'`);
+  if (!geometry || !named || !LAYER_QUERY_CALL.test(code)) return meta;
+  try {
+    return { ...meta, geometry: geometry() };
+  } catch (err) {
+    return {
+      ...meta,
+      geometryError: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
+export interface ExecutionOptions {
+  /** Workers to split each sdfMesh grid across, in Z-slabs (default 1). */
+  concurrency?: number;
+  /** Aborting terminates every worker of this execution immediately. */
+  signal?: AbortSignal;
+  /** Called with throttled progress while the code runs. */
+  onProgress?: (progress: GenerationProgress) => void;
+  /** Declared parameters, exposed to the code as PARAMS. */
+  params?: LayerParam[];
+  /** Values to run with instead of the params' defaults. */
+  paramValues?: ParamValues;
+}
+
+interface WorkerOutput extends MeshBuffers {
+  /** Vertices on a slab boundary, also emitted by the neighbouring slab. */
+  seamVertices: Uint32Array;
+  meshUVs: Float32Array | null;
+  bakedTexture: BakedTexture | null;
+  groups: MaterialGroup[];
+  instances: InstancedPart[];
+  heightmap: HeightmapData | null;
+  hasCustomNormals: boolean;
+  materialProps: MaterialProps;
+  stats: GenerationStats;
+}
+
+interface WorkerError {
+  error: true;
+  message: string;
+  stack: string;
+  meshVertexCount: number;
+}
+
+type WorkerReply = WorkerOutput | WorkerError;
+
+/** A fresh seed for executeProceduralCode. */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 0xffffffff);
+}
+
+export async function executeProceduralCode(
   code: string,
   bounds: SceneBounds,
   seed?: number,
   layerMetas?: LayerMeta[],
+  options: ExecutionOptions = {},
 ): Promise<GeneratedLayer> {
   // AST validation — reject dangerous code before creating the worker
   const validation = validateCode(code);
   if (!validation.valid) {
-    return Promise.reject(
-      new Error(`Code validation failed: ${validation.error}`),
-    );
+    throw new Error(`Code validation failed: ${validation.error}`);
   }
 
-  return new Promise((resolve, reject) => {
-    const worker = new Worker(getWorkerBlobUrl());
-    const timeout = setTimeout(() => {
-      worker.terminate();
-      reject(new Error("Code execution timed out (300s)"));
-    }, 300000);
-
-    worker.onmessage = (e) => {
-      clearTimeout(timeout);
-      worker.terminate();
-
-      // Check for structured runtime errors from the worker's try/catch
-      if (e.data.error) {
-        const {
-          message,
-          stack,
-          meshVertexCount: partialCount,
-        } = e.data as {
-          error: true;
-          message: string;
-          stack: string;
-          meshVertexCount: number;
-        };
-        // Extract line number from stack trace (anonymous function lines)
-        const lineMatch = stack.match(/<anonymous>:(\d+):(\d+)/);
-        let detail = `Runtime error: ${message}`;
-        if (lineMatch) {
-          const lineNum = Number.parseInt(lineMatch[1], 10);
-          // The code is wrapped in a function body, so line numbers are 1-indexed
-          // relative to the user code
-          const codeLines = code.split("\n");
-          // new Function adds a wrapper — line 1 in stack = first line of user code
-          const offendingLine =
-            lineNum >= 1 && lineNum <= codeLines.length
-              ? codeLines[lineNum - 1].trim()
-              : null;
-          detail += ` (line ${lineNum}`;
-          if (offendingLine) {
-            detail += `: \`${offendingLine}\``;
+  const params = options.params ?? [];
+  validateParams(params);
+  const paramValues = resolveParamValues(params, options.paramValues);
+
+  const concurrency = Math.max(1, Math.floor(options.concurrency ?? 1));
+  setWorkerPoolSize(concurrency);
+  const slabCount =
+    SDF_MESH_CALL.test(code) && !TEXTURE_BAKE_CALL.test(code) ? concurrency : 1;
+
+  // Every slab worker runs the whole program with the same seed, so they
+  // agree on every sdfMesh call; each one meshes only its share of the grid
+  const runSeed = seed ?? randomSeed();
+  const message = {
+    code,
+    seed: runSeed,
+    sceneBounds: bounds,
+    params: sandboxParamValues(params, paramValues),
+    layerMetas: (layerMetas ?? []).map((meta) => workerLayerMeta(code, meta)),
+  };
+  // Latest report per slab; the call name follows slab 0, which is the
+  // only one running the code outside sdfMesh for real
+  const slabProgress: GenerationProgress[] = [];
+  const reportProgress = (index: number, progress: GenerationProgress) => {
+    slabProgress[index] = progress;
+    let slice = 0;
+    let slices = 0;
+    let meshVertexCount = 0;
+    for (const p of slabProgress) {
+      if (!p) continue;
+      slice += p.slice;
+      slices += p.slices;
+      meshVertexCount += p.meshVertexCount;
+    }
+    options.onProgress?.({
+      call: (slabProgress[0] ?? progress).call,
+      slice,
+      slices,
+      meshVertexCount,
+    });
+  };
+
+  // The first slab to fail or report an error stops its siblings, whose
+  // output would be thrown away anyway
+  const slabs = new AbortController();
+  const signal = options.signal
+    ? AbortSignal.any([options.signal, slabs.signal])
+    : slabs.signal;
+  let slabError: WorkerError | undefined;
+  const replies = await Promise.all(
+    Array.from({ length: slabCount }, (_, index) =>
+      runPooledWorker<WorkerReply, GenerationProgress>(
+        getWorkerBlobUrl(),
+        slabCount > 1
+          ? { ...message, slab: { index, count: slabCount } }
+          : message,
+        {
+          timeoutMs: EXECUTION_TIMEOUT_MS,
+          signal,
+          onProgress: options.onProgress
+            ? (progress) => reportProgress(index, progress)
+            : undefined,
+        },
+      ).then(
+        (reply) => {
+          if ("error" in reply) {
+            slabError ??= reply;
+            slabs.abort();
           }
-          detail += ")";
-        }
-        if (partialCount > 0) {
-          detail += `. Generated ${partialCount} vertices before error.`;
-        }
-        reject(new Error(detail));
-        return;
-      }
-
-      const {
-        meshPositions,
-        meshColors,
-        meshVertexCount,
-        meshNormals,
-        hasCustomNormals,
-        materialProps,
-      } = e.data as {
-        meshPositions: Float32Array;
-        meshColors: Float32Array;
-        meshVertexCount: number;
-        meshNormals: Float32Array | null;
-        hasCustomNormals: boolean;
-        materialProps: MaterialProps;
-      };
-      const layer: GeneratedLayer = {
-        id: `layer-${_nextLayerId++}`,
-        meshPositions,
-        meshColors,
-        meshVertexCount,
-      };
-      if (hasCustomNormals && meshNormals) {
-        layer.meshNormals = meshNormals;
-        layer.hasCustomNormals = true;
-      }
-      if (materialProps && Object.keys(materialProps).length > 0) {
-        layer.materialProps = materialProps;
-      }
+          return reply;
+        },
+        (err) => {
+          slabs.abort();
+          throw err;
+        },
+      ),
+    ),
+  ).catch((err) => {
+    throw slabError ? new Error(formatRuntimeError(code, slabError)) : err;
+  });
 
-      // Validate mesh output — reject if hard errors, log warnings
-      const meshValidation = validateMeshOutput(layer);
-      if (!meshValidation.valid) {
-        reject(
-          new Error(
-            `Mesh validation failed: ${meshValidation.errors.join("; ")}`,
-          ),
-        );
-        return;
-      }
-      if (meshValidation.warnings.length > 0) {
-        console.warn(
-          "[autoscene] Mesh warnings:",
-          meshValidation.warnings.join("; "),
-        );
-      }
+  // Check for structured runtime errors from the worker's try/catch
+  const failed = replies.find((r): r is WorkerError => "error" in r);
+  if (failed) {
+    throw new Error(formatRuntimeError(code, failed));
+  }
 
-      resolve(layer);
-    };
+  const outputs = replies as WorkerOutput[];
+  const {
+    meshPositions,
+    meshColors,
+    meshNormals,
+    meshIndices,
+    meshVertexCount,
+    meshUVs,
+    bakedTexture,
+    groups,
+    instances,
+    heightmap,
+    hasCustomNormals,
+    materialProps,
+    stats,
+  } = outputs.length > 1 ? stitchSlabs(outputs) : outputs[0];
+  const layer: GeneratedLayer = {
+    id: `layer-${_nextLayerId++}`,
+    code,
+    seed: runSeed,
+    meshPositions,
+    meshColors,
+    meshNormals,
+    meshIndices,
+    meshVertexCount,
+  };
+  if (meshUVs && bakedTexture) {
+    layer.meshUVs = meshUVs;
+    layer.bakedTexture = bakedTexture;
+  }
+  if (groups.length > 0) {
+    layer.groups = groups;
+  }
+  if (instances.length > 0) {
+    layer.instances = instances;
+  }
+  if (heightmap) {
+    layer.heightmap = heightmap;
+  }
+  if (params.length > 0) {
+    layer.params = params;
+    layer.paramValues = paramValues;
+  }
+  if (hasCustomNormals) {
+    layer.hasCustomNormals = true;
+  }
+  if (materialProps && Object.keys(materialProps).length > 0) {
+    layer.materialProps = materialProps;
+  }
+  if (stats.sdfGridPoints > 0) {
+    layer.stats = stats;
+  }
 
-    worker.onerror = (e) => {
-      clearTimeout(timeout);
-      worker.terminate();
-      reject(new Error(e.message || "Worker error"));
-    };
+  // Validate mesh output — reject if hard errors, log warnings
+  const meshValidation = validateMeshOutput(layer);
+  if (!meshValidation.valid) {
+    throw new Error(
+      `Mesh validation failed: ${meshValidation.errors.join("; ")}`,
+    );
+  }
+  if (meshValidation.warnings.length > 0) {
+    console.warn(
+      "[autoscene] Mesh warnings:",
+      meshValidation.warnings.join("; "),
+    );
+  }
+
+  return layer;
+}
+
+function formatRuntimeError(code: string, error: WorkerError): string {
+  const { message, stack, meshVertexCount: partialCount } = error;
+  // Extract line number from stack trace (anonymous function lines)
+  const lineMatch = stack.match(/<anonymous>:(\d+):(\d+)/);
+  let detail = `Runtime error: ${message}`;
+  if (lineMatch) {
+    const lineNum = Number.parseInt(lineMatch[1], 10);
+    // The code is wrapped in a function body, so line numbers are 1-indexed
+    // relative to the user code
+    const codeLines = code.split("\n");
+    // new Function adds a wrapper — line 1 in stack = first line of user code
+    const offendingLine =
+      lineNum >= 1 && lineNum <= codeLines.length
+        ? codeLines[lineNum - 1].trim()
+        : null;
+    detail += ` (line ${lineNum}`;
+    if (offendingLine) {
+      detail += `: \`${offendingLine}\``;
+    }
+    detail += ")";
+  }
+  if (partialCount > 0) {
+    detail += `. Generated ${partialCount} vertices before error.`;
+  }
+  return detail;
+}
+
+// Seam copies are computed from identical field values on both sides, so
+// this only needs to absorb float noise — matches the worker's weld step.
+const SEAM_WELD_EPS = 1e-5;
+
+/** Index range of material group `k` in a worker output; 0 is the ungrouped range. */
+function groupRange(output: WorkerOutput, k: number): [number, number] {
+  if (k === 0) {
+    return [0, output.groups[0]?.start ?? output.meshIndices.length];
+  }
+  const group = output.groups[k - 1];
+  return [group.start, group.start + group.count];
+}
+
+/**
+ * Concatenate slab outputs into one mesh, merging the two copies of every
+ * vertex on a slab boundary so the surface stays watertight. Triangles are
+ * gathered group by group so each material part stays one contiguous range.
+ */
+function stitchSlabs(slabs: WorkerOutput[]): WorkerOutput {
+  let vertexTotal = 0;
+  let indexTotal = 0;
+  for (const slab of slabs) {
+    vertexTotal += slab.meshVertexCount;
+    indexTotal += slab.meshIndices.length;
+  }
+  const positions = new Float32Array(vertexTotal * 3);
+  const colors = new Float32Array(vertexTotal * 3);
+  const normals = new Float32Array(vertexTotal * 3);
+  const indices = new Uint32Array(indexTotal);
+  const seamMap = new Map<string, number>();
+  const remaps: Uint32Array[] = [];
+  let vertexCount = 0;
+
+  for (const slab of slabs) {
+    const isSeam = new Uint8Array(slab.meshVertexCount);
+    for (const v of slab.seamVertices) isSeam[v] = 1;
+    const remap = new Uint32Array(slab.meshVertexCount);
+    for (let v = 0; v < slab.meshVertexCount; v++) {
+      const p = v * 3;
+      let key: string | undefined;
+      if (isSeam[v]) {
+        key = `${Math.round(slab.meshPositions[p] / SEAM_WELD_EPS)},${Math.round(slab.meshPositions[p + 1] / SEAM_WELD_EPS)},${Math.round(slab.meshPositions[p + 2] / SEAM_WELD_EPS)}`;
+        const existing = seamMap.get(key);
+        if (existing !== undefined) {
+          remap[v] = existing;
+          continue;
+        }
+        seamMap.set(key, vertexCount);
+      }
+      positions.set(slab.meshPositions.subarray(p, p + 3), vertexCount * 3);
+      colors.set(slab.meshColors.subarray(p, p + 3), vertexCount * 3);
+      normals.set(slab.meshNormals.subarray(p, p + 3), vertexCount * 3);
+      remap[v] = vertexCount++;
+    }
+    remaps.push(remap);
+  }
 
-    worker.postMessage({
-      code,
-      seed: seed ?? Math.floor(Math.random() * 0xffffffff),
-      sceneBounds: bounds,
-      layerMetas: layerMetas ?? [],
+  // Every slab runs the same code, so they all report the same groups
+  const groups = slabs[0].groups.map((group) => ({ ...group }));
+  let indexCount = 0;
+  for (let k = 0; k <= groups.length; k++) {
+    if (k > 0) groups[k - 1].start = indexCount;
+    slabs.forEach((slab, s) => {
+      const [start, end] = groupRange(slab, k);
+      for (let i = start; i < end; i++) {
+        indices[indexCount++] = remaps[s][slab.meshIndices[i]];
+      }
     });
-  });
+    if (k > 0) groups[k - 1].count = indexCount - groups[k - 1].start;
+  }
+
+  return {
+    meshPositions: positions.slice(0, vertexCount * 3),
+    meshColors: colors.slice(0, vertexCount * 3),
+    meshNormals: normals.slice(0, vertexCount * 3),
+    meshIndices: indices,
+    meshVertexCount: vertexCount,
+    seamVertices: new Uint32Array(0),
+    // Baking layers always run in a single worker
+    meshUVs: null,
+    bakedTexture: null,
+    groups,
+    // Prototypes are only built by the first slab
+    instances: slabs[0].instances,
+    heightmap: slabs[0].heightmap,
+    hasCustomNormals: slabs.some((s) => s.hasCustomNormals),
+    // Non-sdfMesh state (materials, grid sizes) is identical in every slab
+    materialProps: slabs[0].materialProps,
+    stats: {
+      sdfEvaluations: slabs.reduce((n, s) => n + s.stats.sdfEvaluations, 0),
+      sdfGridPoints: slabs[0].stats.sdfGridPoints,
+    },
+  };
 }
@@ -0,0 +1,120 @@
+/**
+ * One adjustable value of a layer, declared alongside its code and read in
+ * the sandbox as PARAMS[name]. Number params need a min/max range; color
+ * params are "#rrggbb" strings and reach the code as [r, g, b] in 0–1.
+ */
+export interface LayerParam {
+  name: string;
+  type: "number" | "color";
+  min?: number;
+  max?: number;
+  /** Slider increment; defaults to 1/100 of the range. */
+  step?: number;
+  default: number | string;
+  label?: string;
+}
+
+/** Current value per param name: a number, or a "#rrggbb" color. */
+export type ParamValues = Record<string, number | string>;
+
+const PARAM_NAME = /^[A-Za-z_$][\w$]*$/;
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+/** Throw a message the model can act on when a declaration is unusable. */
+export function validateParams(params: LayerParam[]): void {
+  const seen = new Set<string>();
+  for (const p of params) {
+    if (!PARAM_NAME.test(p.name)) {
+      throw new Error(
+        `params: "${p.name}" is not a valid name (use letters, digits and _)`,
+      );
+    }
+    if (seen.has(p.name)) {
+      throw new Error(`params: "${p.name}" is declared twice`);
+    }
+    seen.add(p.name);
+    if (p.type === "color") {
+      if (typeof p.default !== "string" || !HEX_COLOR.test(p.default)) {
+        throw new Error(
+          `params: color "${p.name}" needs a "#rrggbb" default, got ${JSON.stringify(p.default)}`,
+        );
+      }
+      continue;
+    }
+    if (
+      typeof p.min !== "number" ||
+      typeof p.max !== "number" ||
+      !(p.min < p.max)
+    ) {
+      throw new Error(
+        `params: number "${p.name}" needs min < max, got min=${p.min} max=${p.max}`,
+      );
+    }
+    if (
+      typeof p.default !== "number" ||
+      p.default < p.min ||
+      p.default > p.max
+    ) {
+      throw new Error(
+        `params: "${p.name}" default ${JSON.stringify(p.default)} is outside [${p.min}, ${p.max}]`,
+      );
+    }
+  }
+}
+
+/**
+ * Each param's value: the override when it fits the declaration (numbers
+ * clamped to the range), otherwise the default. Unknown names are dropped.
+ */
+export function resolveParamValues(
+  params: LayerParam[],
+  overrides: ParamValues = {},
+): ParamValues {
+  const values: ParamValues = {};
+  for (const p of params) {
+    const value = overrides[p.name];
+    if (p.type === "color") {
+      values[p.name] =
+        typeof value === "string" && HEX_COLOR.test(value)
+          ? value
+          : (p.default as string);
+    } else {
+      values[p.name] =
+        typeof value === "number" && Number.isFinite(value)
+          ? Math.min(Math.max(value, p.min ?? value), p.max ?? value)
+          : (p.default as number);
+    }
+  }
+  return values;
+}
+
+/** Parse "#rrggbb" into [r, g, b] in 0–1, the form colorFn returns. */
+function hexToRgb(hex: string): [number, number, number] {
+  const n = Number.parseInt(hex.slice(1), 16);
+  return [((n >> 16) & 255) / 255, ((n >> 8) & 255) / 255, (n & 255) / 255];
+}
+
+/** Values as the sandbox's PARAMS sees them: colors become [r, g, b]. */
+export function sandboxParamValues(
+  params: LayerParam[],
+  values: ParamValues,
+): Record<string, number | [number, number, number]> {
+  const out: Record<string, number | [number, number, number]> = {};
+  for (const p of params) {
+    const value = values[p.name];
+    out[p.name] =
+      p.type === "color" ? hexToRgb(value as string) : (value as number);
+  }
+  return out;
+}
+
+/** "trunkRadius=0.18, barkColor=#6b4a2f" */
+export function formatParamValues(values: ParamValues): string {
+  return Object.entries(values)
+    .map(([name, value]) =>
+      typeof value === "number"
+        ? `${name}=${Number(value.toPrecision(4))}`
+        : `${name}=${value}`,
+    )
+    .join(", ");
+}
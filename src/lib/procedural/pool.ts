@@ -0,0 +1,78 @@
+// Pre-started sandbox workers. A worker that has run user code is never
+// reused: the code may have left globals or patched built-ins behind that the
+// worker's own reset cannot see. Instead each finished job is replaced by a
+// fresh worker, which parses the script while idle so the next execution
+// still skips the startup cost.
+
+const _idle: Worker[] = [];
+let _maxIdle = 1;
+
+/** Keep up to `size` fresh idle workers alive between executions. */
+export function setWorkerPoolSize(size: number): void {
+  _maxIdle = Math.max(1, Math.floor(size));
+  while (_idle.length > _maxIdle) _idle.pop()?.terminate();
+}
+
+function acquireWorker(url: string): Worker {
+  return _idle.pop() ?? new Worker(url);
+}
+
+function retireWorker(url: string, worker: Worker): void {
+  worker.terminate();
+  if (_idle.length < _maxIdle) _idle.push(new Worker(url));
+}
+
+const CANCELLED_MESSAGE = "Generation cancelled by user";
+
+export interface PooledRunOptions<P> {
+  timeoutMs: number;
+  signal?: AbortSignal;
+  /** Receives interim `{ progress: true }` messages posted before the reply. */
+  onProgress?: (progress: P) => void;
+}
+
+/**
+ * Post one message to a pooled worker and resolve with its reply. The worker
+ * is terminated once it replies, times out, crashes or is aborted through
+ * `signal`, and a fresh one takes its place in the pool.
+ */
+export function runPooledWorker<T, P = unknown>(
+  url: string,
+  message: unknown,
+  { timeoutMs, signal, onProgress }: PooledRunOptions<P>,
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error(CANCELLED_MESSAGE));
+      return;
+    }
+    const worker = acquireWorker(url);
+
+    const fail = (error: Error) => {
+      clearTimeout(timeout);
+      signal?.removeEventListener("abort", onAbort);
+      retireWorker(url, worker);
+      reject(error);
+    };
+    const onAbort = () => fail(new Error(CANCELLED_MESSAGE));
+    const timeout = setTimeout(() => {
+      fail(new Error(`Code execution timed out (${timeoutMs / 1000}s)`));
+    }, timeoutMs);
+    signal?.addEventListener("abort", onAbort);
+
+    worker.onmessage = (e: MessageEvent<T | (P & { progress: true })>) => {
+      if ((e.data as { progress?: boolean }).progress) {
+        onProgress?.(e.data as P);
+        return;
+      }
+      clearTimeout(timeout);
+      signal?.removeEventListener("abort", onAbort);
+      retireWorker(url, worker);
+      resolve(e.data as T);
+    };
+
+    worker.onerror = (e) => fail(new Error(e.message || "Worker error"));
+
+    worker.postMessage(message);
+  });
+}
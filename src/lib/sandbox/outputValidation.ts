@@ -1,4 +1,4 @@
-import type { GeneratedLayer } from "@/lib/procedural/engine";
+import type { GeneratedLayer, MeshBuffers } from "@/lib/procedural/engine";
 
 /** Soft warning threshold — mesh may be slow to render */
 const WARN_VERTEX_COUNT = 100_000;
@@ -17,39 +17,100 @@ export interface MeshValidationResult {
  * Validate the output of procedural mesh generation.
  *
  * Checks for:
- * - Vertex count limits (warn at 100k, error at 500k)
+ * - Unique (welded) vertex count limits (warn at 100k, error at 500k), with
+ *   each instanced prototype counted once
+ * - Index buffer entries that point past the vertex arrays
  * - NaN or Infinity values in positions, colors, and normals
  * - Vertices outside a reasonable coordinate range
  * - Degenerate (zero-area) triangles
+ * - Baked-texture UVs that do not match the vertex count
+ * - NaN or Infinity values in instance matrices
  */
 export function validateMeshOutput(
   layer: GeneratedLayer,
 ): MeshValidationResult {
   const warnings: string[] = [];
   const errors: string[] = [];
-  const vc = layer.meshVertexCount;
+  const instances = layer.instances ?? [];
+  let total = layer.meshVertexCount;
+  for (const part of instances) total += part.meshVertexCount;
 
   // --- Vertex count ---
-  if (vc >= ERROR_VERTEX_COUNT) {
+  if (total >= ERROR_VERTEX_COUNT) {
     errors.push(
-      `Mesh has ${vc.toLocaleString()} vertices (limit: ${ERROR_VERTEX_COUNT.toLocaleString()})`,
+      `Mesh has ${total.toLocaleString()} unique vertices (limit: ${ERROR_VERTEX_COUNT.toLocaleString()})`,
     );
-  } else if (vc >= WARN_VERTEX_COUNT) {
+  } else if (total >= WARN_VERTEX_COUNT) {
     warnings.push(
-      `Mesh has ${vc.toLocaleString()} vertices — may be slow to render`,
+      `Mesh has ${total.toLocaleString()} unique vertices — may be slow to render`,
     );
   }
 
-  if (vc === 0) {
+  if (total === 0) {
     warnings.push("Mesh produced zero vertices");
     return { valid: true, warnings, errors };
   }
 
+  checkMesh(layer, "", warnings, errors);
+  if (layer.meshUVs && layer.meshUVs.length !== layer.meshVertexCount * 2) {
+    errors.push(
+      `Mesh has ${layer.meshUVs.length / 2} UVs for ${layer.meshVertexCount} vertices`,
+    );
+  }
+  for (let p = 0; p < instances.length; p++) {
+    const part = instances[p];
+    const label = `instance prototype ${p + 1}: `;
+    checkMesh(part, label, warnings, errors);
+    let nanMatrices = 0;
+    for (let i = 0; i < part.instanceMatrices.length; i++) {
+      if (!Number.isFinite(part.instanceMatrices[i])) nanMatrices++;
+    }
+    if (nanMatrices > 0) {
+      errors.push(
+        `${label}${nanMatrices} NaN/Infinity values in instance matrices`,
+      );
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    warnings,
+    errors,
+  };
+}
+
+/** Per-mesh checks; `label` prefixes messages about instanced prototypes. */
+function checkMesh(
+  mesh: MeshBuffers,
+  label: string,
+  warnings: string[],
+  errors: string[],
+): void {
+  const vc = mesh.meshVertexCount;
+  if (vc === 0) return;
+
+  // --- Index range ---
+  const indices = mesh.meshIndices;
+  let badIndices = 0;
+  for (let i = 0; i < indices.length; i++) {
+    if (indices[i] >= vc) badIndices++;
+  }
+  if (badIndices > 0) {
+    errors.push(
+      `${label}${badIndices} mesh indices reference missing vertices`,
+    );
+  }
+  if (indices.length % 3 !== 0) {
+    errors.push(
+      `${label}Index count ${indices.length} is not a multiple of 3 (incomplete triangle)`,
+    );
+  }
+
   // --- NaN / Infinity / bounds check on positions ---
   let nanPositions = 0;
   let outOfBounds = 0;
   for (let i = 0; i < vc * 3; i++) {
-    const v = layer.meshPositions[i];
+    const v = mesh.meshPositions[i];
     if (!Number.isFinite(v)) {
       nanPositions++;
     } else if (Math.abs(v) > MAX_BOUNDS) {
@@ -57,54 +118,57 @@ export function validateMeshOutput(
     }
   }
   if (nanPositions > 0) {
-    errors.push(`${nanPositions} NaN/Infinity values in mesh positions`);
+    errors.push(
+      `${label}${nanPositions} NaN/Infinity values in mesh positions`,
+    );
   }
   if (outOfBounds > 0) {
     warnings.push(
-      `${outOfBounds} position values exceed ±${MAX_BOUNDS} — mesh may be invisible`,
+      `${label}${outOfBounds} position values exceed ±${MAX_BOUNDS} — mesh may be invisible`,
     );
   }
 
   // --- NaN / Infinity check on colors ---
   let nanColors = 0;
   for (let i = 0; i < vc * 3; i++) {
-    if (!Number.isFinite(layer.meshColors[i])) {
+    if (!Number.isFinite(mesh.meshColors[i])) {
       nanColors++;
     }
   }
   if (nanColors > 0) {
-    warnings.push(`${nanColors} NaN/Infinity values in mesh colors`);
+    warnings.push(`${label}${nanColors} NaN/Infinity values in mesh colors`);
   }
 
-  // --- NaN / Infinity check on normals (if present) ---
-  if (layer.hasCustomNormals && layer.meshNormals) {
-    let nanNormals = 0;
-    for (let i = 0; i < vc * 3; i++) {
-      if (!Number.isFinite(layer.meshNormals[i])) {
-        nanNormals++;
-      }
-    }
-    if (nanNormals > 0) {
-      warnings.push(`${nanNormals} NaN/Infinity values in mesh normals`);
+  // --- NaN / Infinity check on normals ---
+  let nanNormals = 0;
+  for (let i = 0; i < vc * 3; i++) {
+    if (!Number.isFinite(mesh.meshNormals[i])) {
+      nanNormals++;
     }
   }
+  if (nanNormals > 0) {
+    warnings.push(`${label}${nanNormals} NaN/Infinity values in mesh normals`);
+  }
 
   // --- Degenerate triangle detection (zero-area) ---
   // Check a sample of triangles to avoid O(n) cost on huge meshes
-  const triCount = Math.floor(vc / 3);
+  const triCount = Math.floor(indices.length / 3);
   const sampleSize = Math.min(triCount, 1000);
   const step = Math.max(1, Math.floor(triCount / sampleSize));
   let degenerateCount = 0;
+  const pos = mesh.meshPositions;
 
   for (let t = 0; t < triCount; t += step) {
-    const base = t * 9;
-    // Triangle vertices: v0, v1, v2
-    const ax = layer.meshPositions[base + 3] - layer.meshPositions[base];
-    const ay = layer.meshPositions[base + 4] - layer.meshPositions[base + 1];
-    const az = layer.meshPositions[base + 5] - layer.meshPositions[base + 2];
-    const bx = layer.meshPositions[base + 6] - layer.meshPositions[base];
-    const by = layer.meshPositions[base + 7] - layer.meshPositions[base + 1];
-    const bz = layer.meshPositions[base + 8] - layer.meshPositions[base + 2];
+    // Triangle vertices: v0, v1, v2 (offsets into the position array)
+    const i0 = indices[t * 3] * 3;
+    const i1 = indices[t * 3 + 1] * 3;
+    const i2 = indices[t * 3 + 2] * 3;
+    const ax = pos[i1] - pos[i0];
+    const ay = pos[i1 + 1] - pos[i0 + 1];
+    const az = pos[i1 + 2] - pos[i0 + 2];
+    const bx = pos[i2] - pos[i0];
+    const by = pos[i2 + 1] - pos[i0 + 1];
+    const bz = pos[i2 + 2] - pos[i0 + 2];
     // Cross product magnitude = 2x triangle area
     const cx = ay * bz - az * by;
     const cy = az * bx - ax * bz;
@@ -119,13 +183,7 @@ export function validateMeshOutput(
     const estimated =
       step > 1 ? ` (~${degenerateCount * step} estimated total)` : "";
     warnings.push(
-      `${degenerateCount} degenerate (zero-area) triangles in sample${estimated}`,
+      `${label}${degenerateCount} degenerate (zero-area) triangles in sample${estimated}`,
     );
   }
-
-  return {
-    valid: errors.length === 0,
-    warnings,
-    errors,
-  };
 }
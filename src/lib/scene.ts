@@ -6,7 +6,13 @@ import { OutputPass } from "three/addons/postprocessing/OutputPass.js";
 import { RenderPass } from "three/addons/postprocessing/RenderPass.js";
 import { SSAOPass } from "three/addons/postprocessing/SSAOPass.js";
 import { UnrealBloomPass } from "three/addons/postprocessing/UnrealBloomPass.js";
-import type { GeneratedLayer } from "@/lib/procedural/engine";
+import type {
+  BakedTexture,
+  GeneratedLayer,
+  InstancedPart,
+  MaterialProps,
+  MeshBuffers,
+} from "@/lib/procedural/engine";
 
 export interface SceneHandle {
   renderer: THREE.WebGLRenderer;
@@ -31,8 +37,24 @@ export interface SceneHandle {
   getLayerIds: () => string[];
   /** Set visibility of a procedural layer by id. */
   setLayerVisible: (id: string, visible: boolean) => void;
+  /**
+   * Show a temporary copy of a layer (a seed variation). Previews are not
+   * layers: getLayerIds and GLB export skip them.
+   */
+  addPreview: (layer: GeneratedLayer) => void;
+  /** Remove every preview. */
+  clearPreviews: () => void;
 }
 
+// Material props that need MeshPhysicalMaterial; emissive works on both
+const PHYSICAL_PROPS: (keyof MaterialProps)[] = [
+  "transmission",
+  "ior",
+  "thickness",
+  "clearcoat",
+  "sheen",
+];
+
 /**
  * Create a Three.js scene with standard shaded mesh rendering,
  * orbit controls, and WASD movement.
@@ -229,87 +251,213 @@ export function createScene(
   // -----------------------------------------------------------------------
   // Procedural layers — mesh-only rendering
   // -----------------------------------------------------------------------
-  const layers = new Map<
-    string,
-    {
-      meshObj: THREE.Mesh;
-      meshGeometry: THREE.BufferGeometry;
-      meshMaterial: THREE.MeshStandardMaterial;
-    }
-  >();
-
-  function addLayer(layer: GeneratedLayer): void {
-    removeLayer(layer.id);
-
-    if (layer.meshVertexCount <= 0) return;
-
-    const meshGeometry = new THREE.BufferGeometry();
-    meshGeometry.setAttribute(
+  // Each layer is a group holding its own mesh plus one InstancedMesh per
+  // instanced prototype. Materials are the layer's own followed by one per
+  // named part; the mesh draws each part's index range with its material.
+  type LayerEntry = {
+    group: THREE.Group;
+    geometries: THREE.BufferGeometry[];
+    materials: THREE.MeshStandardMaterial[];
+    texture: THREE.Texture | null;
+  };
+  const layers = new Map<string, LayerEntry>();
+  // Previews are built the same way but live in their own group, which
+  // the GLB export leaves out
+  const previews = new Map<string, LayerEntry>();
+  const previewGroup = new THREE.Group();
+  previewGroup.userData.isPreview = true;
+  scene.add(previewGroup);
+
+  function buildGeometry(
+    mesh: MeshBuffers,
+    uvs?: Float32Array,
+  ): THREE.BufferGeometry {
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute(
       "position",
-      new THREE.BufferAttribute(layer.meshPositions, 3),
+      new THREE.BufferAttribute(mesh.meshPositions, 3),
     );
-    meshGeometry.setAttribute(
-      "color",
-      new THREE.BufferAttribute(layer.meshColors, 3),
+    // A baked layer carries UVs instead of vertex colors — glTF viewers
+    // would multiply COLOR_0 into the texture a second time
+    if (uvs) {
+      geometry.setAttribute("uv", new THREE.BufferAttribute(uvs, 2));
+    } else {
+      geometry.setAttribute(
+        "color",
+        new THREE.BufferAttribute(mesh.meshColors, 3),
+      );
+    }
+    geometry.setAttribute(
+      "normal",
+      new THREE.BufferAttribute(mesh.meshNormals, 3),
     );
+    // Vertices are welded in the worker — triangles share them via the index
+    geometry.setIndex(new THREE.BufferAttribute(mesh.meshIndices, 1));
+    return geometry;
+  }
+
+  function createBakedTexture({ size, data }: BakedTexture): THREE.DataTexture {
+    const texture = new THREE.DataTexture(data, size, size, THREE.RGBAFormat);
+    texture.colorSpace = THREE.SRGBColorSpace;
+    texture.magFilter = THREE.LinearFilter;
+    texture.minFilter = THREE.LinearMipmapLinearFilter;
+    texture.generateMipmaps = true;
+    texture.anisotropy = renderer.capabilities.getMaxAnisotropy();
+    texture.needsUpdate = true;
+    return texture;
+  }
 
-    // Read per-layer material properties from procedural code, falling back
-    // to sensible defaults (matte, non-metallic, fully opaque).
-    const roughness = layer.materialProps?.roughness ?? 0.55;
-    const metalness = layer.materialProps?.metalness ?? 0.0;
-    const opacity = layer.materialProps?.opacity ?? 1.0;
+  function createMaterial(
+    props: MaterialProps | undefined,
+    smooth: boolean,
+    map: THREE.Texture | null = null,
+  ): THREE.MeshStandardMaterial {
+    // Read material properties from procedural code, falling back to
+    // sensible defaults (matte, non-metallic, fully opaque).
+    const roughness = props?.roughness ?? 0.55;
+    const metalness = props?.metalness ?? 0.0;
+    const opacity = props?.opacity ?? 1.0;
     const transparent = opacity < 1.0;
 
-    let meshMaterial: THREE.MeshStandardMaterial;
+    // When the layer includes smooth per-vertex normals (e.g., from SDF
+    // gradient computation in marching cubes), shade smoothly. This produces
+    // organic, curved surfaces. Layers built only from flat primitives use
+    // flat shading for hard-edged geometry.
+    const params: THREE.MeshStandardMaterialParameters = {
+      vertexColors: !map,
+      ...(map ? { map } : {}),
+      side: THREE.DoubleSide,
+      roughness,
+      metalness,
+      ...(transparent ? { opacity, transparent: true } : {}),
+      flatShading: !smooth,
+    };
+    if (props?.emissive) {
+      params.emissive = new THREE.Color(...props.emissive);
+      params.emissiveIntensity = props.emissiveIntensity ?? 1.0;
+    }
+    if (!props || !PHYSICAL_PROPS.some((key) => props[key] !== undefined)) {
+      return new THREE.MeshStandardMaterial(params);
+    }
+    // GLTFExporter writes these as KHR_materials_transmission, _volume,
+    // _ior, _clearcoat and _sheen
+    return new THREE.MeshPhysicalMaterial({
+      ...params,
+      transmission: props.transmission ?? 0,
+      ior: props.ior ?? 1.5,
+      thickness: props.thickness ?? 0,
+      clearcoat: props.clearcoat ?? 0,
+      clearcoatRoughness: props.clearcoatRoughness ?? 0,
+      sheen: props.sheen ?? 0,
+      sheenColor: new THREE.Color(...(props.sheenColor ?? [1, 1, 1])),
+    });
+  }
+
+  function createLayerEntry(layer: GeneratedLayer): LayerEntry | null {
+    const instances = layer.instances ?? [];
+    if (layer.meshVertexCount <= 0 && instances.length === 0) return null;
+
+    const smooth = !!layer.hasCustomNormals;
+    const parts = layer.groups ?? [];
+    const texture = layer.bakedTexture
+      ? createBakedTexture(layer.bakedTexture)
+      : null;
+    const createMaterials = (map: THREE.Texture | null, smooth: boolean) => [
+      createMaterial(layer.materialProps, smooth, map),
+      ...parts.map((part) => {
+        const material = createMaterial(part.materialProps, smooth, map);
+        // Part names carry through to exported glTF materials
+        material.name = part.name;
+        return material;
+      }),
+    ];
+    const materials = createMaterials(texture, smooth);
+    // Prototypes are never baked and keep their vertex colors, and shade by
+    // their own normals: one extra material set per shading they need
+    const instanceMaterials = new Map<boolean, THREE.MeshStandardMaterial[]>();
+    const materialsFor = (part: InstancedPart) => {
+      const partSmooth = !!part.hasCustomNormals;
+      if (!texture && partSmooth === smooth) return materials;
+      let set = instanceMaterials.get(partSmooth);
+      if (!set) {
+        set = createMaterials(null, partSmooth);
+        instanceMaterials.set(partSmooth, set);
+      }
+      return set;
+    };
+
+    const group = new THREE.Group();
+    group.name = layer.id;
+    const geometries: THREE.BufferGeometry[] = [];
+
+    if (layer.meshVertexCount > 0) {
+      const meshGeometry = buildGeometry(
+        layer,
+        layer.bakedTexture ? layer.meshUVs : undefined,
+      );
+      geometries.push(meshGeometry);
+      let meshObj: THREE.Mesh;
+      if (parts.length > 0) {
+        // Triangles outside any part come first and use the layer material
+        meshGeometry.addGroup(0, parts[0].start, 0);
+        parts.forEach((part, i) => {
+          if (part.count > 0)
+            meshGeometry.addGroup(part.start, part.count, i + 1);
+        });
+        meshObj = new THREE.Mesh(meshGeometry, materials);
+      } else {
+        meshObj = new THREE.Mesh(meshGeometry, materials[0]);
+      }
+      // Enable shadow casting and receiving for realistic grounding
+      meshObj.castShadow = true;
+      meshObj.receiveShadow = true;
+      group.add(meshObj);
+    }
 
-    // When the layer includes custom per-vertex normals (e.g., from SDF
-    // gradient computation in marching cubes), use them directly with smooth
-    // shading. This produces organic, curved surfaces. Otherwise fall back
-    // to auto-computed face normals with flat shading for hard-edged geometry.
-    if (layer.hasCustomNormals && layer.meshNormals) {
-      meshGeometry.setAttribute(
-        "normal",
-        new THREE.BufferAttribute(layer.meshNormals, 3),
+    for (const part of instances) {
+      const geometry = buildGeometry(part);
+      geometries.push(geometry);
+      const instanced = new THREE.InstancedMesh(
+        geometry,
+        materialsFor(part)[(part.group ?? -1) + 1],
+        part.instanceCount,
       );
-      meshMaterial = new THREE.MeshStandardMaterial({
-        vertexColors: true,
-        side: THREE.DoubleSide,
-        roughness,
-        metalness,
-        ...(transparent ? { opacity, transparent: true } : {}),
-        flatShading: false,
-      });
-    } else {
-      meshGeometry.computeVertexNormals();
-      meshMaterial = new THREE.MeshStandardMaterial({
-        vertexColors: true,
-        side: THREE.DoubleSide,
-        roughness,
-        metalness,
-        ...(transparent ? { opacity, transparent: true } : {}),
-        flatShading: true,
-      });
+      instanced.instanceMatrix.array.set(part.instanceMatrices);
+      instanced.instanceMatrix.needsUpdate = true;
+      // Culling needs bounds that cover every instance, not the prototype
+      instanced.computeBoundingSphere();
+      instanced.castShadow = true;
+      instanced.receiveShadow = true;
+      group.add(instanced);
     }
 
-    const meshObj = new THREE.Mesh(meshGeometry, meshMaterial);
-    // Enable shadow casting and receiving for realistic grounding
-    meshObj.castShadow = true;
-    meshObj.receiveShadow = true;
-    scene.add(meshObj);
+    return {
+      group,
+      geometries,
+      materials: [...materials, ...[...instanceMaterials.values()].flat()],
+      texture,
+    };
+  }
 
-    layers.set(layer.id, {
-      meshObj,
-      meshGeometry,
-      meshMaterial,
-    });
+  function disposeLayerEntry(entry: LayerEntry): void {
+    entry.group.removeFromParent();
+    for (const geometry of entry.geometries) geometry.dispose();
+    for (const material of entry.materials) material.dispose();
+    entry.texture?.dispose();
+  }
+
+  function addLayer(layer: GeneratedLayer): void {
+    removeLayer(layer.id);
+    const entry = createLayerEntry(layer);
+    if (!entry) return;
+    scene.add(entry.group);
+    layers.set(layer.id, entry);
   }
 
   function removeLayer(id: string): void {
     const entry = layers.get(id);
     if (!entry) return;
-    scene.remove(entry.meshObj);
-    entry.meshGeometry.dispose();
-    entry.meshMaterial.dispose();
+    disposeLayerEntry(entry);
     layers.delete(id);
   }
 
@@ -326,10 +474,25 @@ export function createScene(
   function setLayerVisible(id: string, visible: boolean): void {
     const entry = layers.get(id);
     if (entry) {
-      entry.meshObj.visible = visible;
+      entry.group.visible = visible;
     }
   }
 
+  function addPreview(layer: GeneratedLayer): void {
+    const existing = previews.get(layer.id);
+    if (existing) disposeLayerEntry(existing);
+    previews.delete(layer.id);
+    const entry = createLayerEntry(layer);
+    if (!entry) return;
+    previewGroup.add(entry.group);
+    previews.set(layer.id, entry);
+  }
+
+  function clearPreviews(): void {
+    for (const entry of previews.values()) disposeLayerEntry(entry);
+    previews.clear();
+  }
+
   function resize(w: number, h: number): void {
     renderer.setSize(w, h);
     composer.setSize(w, h);
@@ -344,6 +507,7 @@ export function createScene(
       keyboardEl.removeEventListener("keyup", onKeyUp);
     }
     clearLayers();
+    clearPreviews();
     // Clean up ground plane GPU resources
     groundGeo.dispose();
     groundMat.dispose();
@@ -369,5 +533,7 @@ export function createScene(
     clearLayers,
     getLayerIds,
     setLayerVisible,
+    addPreview,
+    clearPreviews,
   };
 }
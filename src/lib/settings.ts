@@ -14,6 +14,8 @@ export interface ProviderConfig {
 export interface AISettings {
   providers: Record<AIProvider, ProviderConfig>;
   selectedModel: string; // "provider:modelId"
+  /** Workers used to mesh sdfMesh grids in parallel. */
+  workerConcurrency: number;
 }
 
 export interface ModelOption {
@@ -122,6 +124,22 @@ const STORAGE_KEY = "autoscene-settings";
 
 const DEFAULT_PROVIDER_CONFIG: ProviderConfig = { apiKey: "" };
 
+export const MAX_WORKER_CONCURRENCY = 16;
+
+/** Leave one core for the main thread; cap where slab overhead dominates. */
+function defaultWorkerConcurrency(): number {
+  const cores =
+    typeof navigator !== "undefined" ? navigator.hardwareConcurrency || 2 : 2;
+  return Math.max(1, Math.min(cores - 1, 8));
+}
+
+function clampWorkerConcurrency(n: unknown): number {
+  if (typeof n !== "number" || !Number.isFinite(n)) {
+    return defaultWorkerConcurrency();
+  }
+  return Math.max(1, Math.min(MAX_WORKER_CONCURRENCY, Math.floor(n)));
+}
+
 const DEFAULT_SETTINGS: AISettings = {
   providers: {
     cerebras: { ...DEFAULT_PROVIDER_CONFIG },
@@ -130,6 +148,7 @@ const DEFAULT_SETTINGS: AISettings = {
     anthropic: { ...DEFAULT_PROVIDER_CONFIG },
   },
   selectedModel: "cerebras:llama-3.3-70b",
+  workerConcurrency: defaultWorkerConcurrency(),
 };
 
 export function loadSettings(): AISettings {
@@ -166,6 +185,7 @@ export function loadSettings(): AISettings {
         },
       },
       selectedModel: parsed.selectedModel ?? DEFAULT_SETTINGS.selectedModel,
+      workerConcurrency: clampWorkerConcurrency(parsed.workerConcurrency),
     };
   } catch {
     return DEFAULT_SETTINGS;